@@ -1,20 +1,50 @@
 import {
   useCallback,
   useEffect,
+  useId,
   useMemo,
   useRef,
   useState,
   type CSSProperties,
+  type ReactNode,
+  type ChangeEvent as ReactChangeEvent,
+  type FormEvent as ReactFormEvent,
   type KeyboardEvent as ReactKeyboardEvent,
   type MouseEvent as ReactMouseEvent,
   type WheelEvent as ReactWheelEvent,
 } from 'react'
-import type { BaseStory, Theme, StoryWithEmbedding, LivingHiveProps } from '../types'
-import { useUMAPPlacement } from '../hooks/useUMAPPlacement'
-import { hexToPixel, getHexRadius } from '../utils/hex'
+import type {
+  BaseStory,
+  Embedding,
+  Theme,
+  StoryWithEmbedding,
+  LivingHiveProps,
+  PlacementResult,
+} from '../types'
+import { useUMAPPlacement, isAbortError } from '../hooks/useUMAPPlacement'
+import { hexCorners, hexToPixel, getHexRadius, getMaxHexes } from '../utils/hex'
 import { getThemeColor, DEFAULT_COLOR_PALETTE } from '../utils/colors'
 import { HiveShimmer } from './HiveShimmer'
+import {
+  interpolateTransition,
+  planLayoutTransition,
+  resolveEasing,
+  resolveTransitionDuration,
+  type EasingFunction,
+  type HexFrame,
+  type LayoutTransition,
+} from '../utils/transition'
+import { resolveDetailLevel, wrapText, type DetailLevel } from '../utils/levelOfDetail'
+import { placeLabels, themeLabelAnchors, themeLabelFontSize } from '../utils/themeLabels'
+import {
+  DEFAULT_MIN_SEMANTIC_SIMILARITY,
+  DEFAULT_SEMANTIC_RESULTS,
+  createHighlightMatcher,
+  findSemanticMatches,
+  findTextMatches,
+} from '../utils/search'
 import { cn } from '../utils/cn'
+import { footprintCellCount } from '../engine/footprints'
 import { assignStoriesToThemes } from '../data/StoryDataGenerator'
 import '../styles/living-hive.css'
 
@@ -23,6 +53,119 @@ interface HexData<T extends BaseStory> {
   r: number
   theme: Theme | null
   story: T
+  // Every story in the cell; more than one when density binning merged them
+  stories: T[]
+  // Rings of cells around (q, r) covered by a weighted story; 0 for a single cell
+  footprint: number
+  // Story count relative to the fullest cell, 0..1
+  density: number
+}
+
+// Opacity of the emptiest binned hexes; the fullest are fully opaque
+const MIN_BIN_OPACITY = 0.35
+
+// Pair placed stories with their hex coordinates and assigned theme. Stories sharing a
+// cell (density binning) become one hex colored by their most common theme.
+function buildHexData<T extends BaseStory>(
+  stories: T[],
+  placements: PlacementResult['placements'],
+  themes: Theme[],
+  storyAssignments: Map<string, string>,
+  footprints?: PlacementResult['footprints'],
+): HexData<T>[] {
+  const themeMap = new Map(themes.map(theme => [theme.id, theme]))
+  const storyMap = new Map(stories.map(story => [story.id, story]))
+  const cells = new Map<string, HexData<T>>()
+
+  const themeOf = (storyId: string) => {
+    const themeId = storyAssignments.get(storyId) || themes[0]?.id
+    return themeId ? themeMap.get(themeId) || null : null
+  }
+
+  placements.forEach((hexCoord, storyId) => {
+    const story = storyMap.get(storyId)
+    if (!story) return
+
+    const key = `${hexCoord.q},${hexCoord.r}`
+    const cell = cells.get(key)
+    if (cell) {
+      cell.stories.push(story)
+      return
+    }
+
+    cells.set(key, {
+      q: hexCoord.q,
+      r: hexCoord.r,
+      theme: themeOf(storyId),
+      story,
+      stories: [story],
+      footprint: footprints?.get(storyId) ?? 0,
+      density: 1,
+    })
+  })
+
+  const hexes = Array.from(cells.values())
+  const maxCount = hexes.reduce((max, hex) => Math.max(max, hex.stories.length), 1)
+  hexes.forEach(hex => {
+    hex.density = hex.stories.length / maxCount
+    if (hex.stories.length === 1) return
+
+    const counts = new Map<Theme | null, number>()
+    hex.stories.forEach(story => {
+      const theme = themeOf(story.id)
+      counts.set(theme, (counts.get(theme) ?? 0) + 1)
+    })
+    let dominantCount = 0
+    counts.forEach((count, theme) => {
+      if (count > dominantCount) {
+        dominantCount = count
+        hex.theme = theme
+      }
+    })
+    hex.story = hex.stories.find(story => themeOf(story.id) === hex.theme) ?? hex.story
+  })
+
+  return hexes
+}
+
+// Drawn radius of a hex: a footprint becomes one hexagon with the area of its cells
+function drawnRadius(hex: { footprint: number }, hexRadius: number): number {
+  return hex.footprint > 0 ? hexRadius * Math.sqrt(footprintCellCount(hex.footprint)) : hexRadius
+}
+
+// Opacity of hexes without a highlighted story
+const DIMMED_OPACITY = 0.2
+
+// Pause in typing before a search query is embedded
+const SEARCH_DEBOUNCE_MS = 300
+
+// Longest story excerpt shown in the built-in tooltip, in characters
+const TOOLTIP_EXCERPT_LENGTH = 160
+
+// Shorten text to at most `maxLength` characters, breaking between words
+function excerpt(text: string, maxLength: number): string {
+  if (text.length <= maxLength) return text
+  const cut = text.slice(0, maxLength - 1)
+  const lastSpace = cut.lastIndexOf(' ')
+  return `${(lastSpace > 0 ? cut.slice(0, lastSpace) : cut).trimEnd()}…`
+}
+
+// A running tween between two layouts
+interface ActiveTransition<T extends BaseStory> {
+  plan: LayoutTransition
+  // Hexes of removed stories, drawn while they fade out
+  leaving: Map<string, HexData<T>>
+  start: number
+  duration: number
+  easing: EasingFunction
+}
+
+// Last computed layout, used to place newly added stories without refitting UMAP
+interface LayoutSnapshot {
+  key: string
+  embeddings: Map<string, Embedding>
+  weights: Map<string, number | undefined>
+  result: PlacementResult
 }
 
 export function LivingHive<T extends BaseStory = BaseStory>({
@@ -32,6 +175,8 @@ export function LivingHive<T extends BaseStory = BaseStory>({
   colorPalette = DEFAULT_COLOR_PALETTE,
   loading: externalLoading,
   onHexClick,
+  onHexHover,
+  renderTooltip,
   onError,
   onThemesChange,
   onAssignmentsChange,
@@ -41,6 +186,25 @@ export function LivingHive<T extends BaseStory = BaseStory>({
   canvasHeight,
   workerUrl,
   throwIfMissingWorker,
+  execution,
+  seed,
+  umap,
+  projection,
+  tsne,
+  layoutMode,
+  shape,
+  orientation,
+  placementCache,
+  placements: precomputedPlacements,
+  footprints: precomputedFootprints,
+  umapCoords: precomputedUmapCoords,
+  weight,
+  maxHexes,
+  transition,
+  levelOfDetail,
+  themeLabels,
+  highlight,
+  search,
 }: LivingHiveProps<T>) {
   const resolvedCanvasWidth = canvasWidth ?? config?.canvasWidth
   const resolvedCanvasHeight = canvasHeight ?? config?.canvasHeight
@@ -64,10 +228,27 @@ export function LivingHive<T extends BaseStory = BaseStory>({
     return Object.keys(style).length ? style : undefined
   }, [resolvedCanvasHeight, resolvedCanvasWidth])
   const canvasRef = useRef<HTMLCanvasElement>(null)
-  const containerRef = useRef<HTMLDivElement>(null)
+  const containerRef = useRef<HTMLDivElement | null>(null)
+  // Whether the hive is on screen; a shared worker pool serves visible hives first
+  const [isOnScreen, setIsOnScreen] = useState(true)
+  const visibilityObserverRef = useRef<IntersectionObserver | null>(null)
   const [hexes, setHexes] = useState<HexData<T>[]>([])
   const [selectedHex, setSelectedHex] = useState<HexData<T> | null>(null)
   const [focusedHexIndex, setFocusedHexIndex] = useState<number | null>(null)
+  const [hoveredHex, setHoveredHex] = useState<HexData<T> | null>(null)
+  const tooltipId = useId()
+
+  // Built-in search: the query, its semantic matches and the match panned to last
+  const [searchQuery, setSearchQuery] = useState('')
+  const [semanticMatchIds, setSemanticMatchIds] = useState<string[]>([])
+  const [searchMatchIndex, setSearchMatchIndex] = useState<number | null>(null)
+  const embedQuery = typeof search === 'object' ? search.embedQuery : undefined
+  const semanticResults =
+    (typeof search === 'object' ? search.semanticResults : undefined) ?? DEFAULT_SEMANTIC_RESULTS
+  const minSimilarity =
+    (typeof search === 'object' ? search.minSimilarity : undefined) ??
+    DEFAULT_MIN_SEMANTIC_SIMILARITY
+  const searchActive = Boolean(search) && searchQuery.trim() !== ''
   const [storyAssignments, setStoryAssignments] = useState<Map<string, string>>(new Map())
 
   // Zoom and pan state
@@ -79,16 +260,55 @@ export function LivingHive<T extends BaseStory = BaseStory>({
   const dragStartRef = useRef({ x: 0, y: 0 })
   const initialPanRef = useRef({ x: 0, y: 0 })
   const autoFitAppliedRef = useRef<string>('') // Track which hex set we've auto-fitted
+  const lastLayoutRef = useRef<LayoutSnapshot | null>(null)
+  // Layout transitions: what was drawn last frame, and the tween in progress
+  const layoutHexesRef = useRef<HexData<T>[] | null>(null)
+  const displayedFramesRef = useRef(new Map<string, HexFrame>())
+  const drawnHexesRef = useRef(new Map<string, HexData<T>>())
+  const transitionRef = useRef<ActiveTransition<T> | null>(null)
 
   const {
     computePlacement,
+    addStories,
     loading: placementLoading,
+    progress: placementProgress,
     error: placementError,
-  } = useUMAPPlacement({ workerUrl, throwIfMissingWorker })
+  } = useUMAPPlacement({
+    workerUrl,
+    throwIfMissingWorker,
+    execution,
+    cache: placementCache,
+    enabled: !precomputedPlacements,
+    visible: isOnScreen,
+    reference: precomputedUmapCoords,
+  })
+
+  // Attached to whichever root element is rendered (shimmer, placeholder or canvas)
+  const setRootElement = useCallback((element: HTMLDivElement | null) => {
+    containerRef.current = element
+    visibilityObserverRef.current?.disconnect()
+    visibilityObserverRef.current = null
+    if (!element || typeof IntersectionObserver === 'undefined') return
+
+    const observer = new IntersectionObserver(entries => {
+      setIsOnScreen(entries[entries.length - 1].isIntersecting)
+    })
+    observer.observe(element)
+    visibilityObserverRef.current = observer
+  }, [])
 
   // Use external loading prop if provided, otherwise use placement loading
   const loading = externalLoading !== undefined ? externalLoading : placementLoading
 
+  const resolvedSeed = seed ?? config?.seed
+  const resolvedUmap = umap ?? config?.umap
+  const resolvedProjection = projection ?? config?.projection
+  const resolvedTsne = tsne ?? config?.tsne
+  const resolvedLayoutMode = layoutMode ?? config?.layoutMode
+  const resolvedShape = shape ?? config?.shape
+  const resolvedOrientation = orientation ?? config?.orientation
+  const resolvedMaxHexes = maxHexes ?? config?.maxHexes ?? getMaxHexes()
+
   // Compute story assignments when themes and embeddings are available
   useEffect(() => {
     if (stories.length === 0 || themes.length === 0 || embeddings.size === 0) {
@@ -97,7 +317,7 @@ export function LivingHive<T extends BaseStory = BaseStory>({
     }
 
     // Compute assignments synchronously
-    const assignments = assignStoriesToThemes(stories, embeddings, themes)
+    const assignments = assignStoriesToThemes(stories, embeddings, themes, { seed: resolvedSeed })
     setStoryAssignments(assignments)
 
     // Call callbacks when assignments are ready
@@ -107,13 +327,33 @@ export function LivingHive<T extends BaseStory = BaseStory>({
     if (onAssignmentsChange) {
       onAssignmentsChange(assignments)
     }
-  }, [stories, themes, embeddings, onThemesChange, onAssignmentsChange])
+  }, [stories, themes, embeddings, resolvedSeed, onThemesChange, onAssignmentsChange])
 
   // Generate hex positions when data changes
   useEffect(() => {
-    if (stories.length === 0 || themes.length === 0) {
+    if (stories.length === 0 || (themes.length === 0 && !precomputedPlacements)) {
       setHexes([])
       autoFitAppliedRef.current = '' // Reset auto-fit when clearing hexes
+      lastLayoutRef.current = null
+      return
+    }
+
+    // Precomputed placements render directly; embeddings, if given, only color the themes
+    if (precomputedPlacements) {
+      if (storyAssignments.size === 0 && embeddings.size > 0 && themes.length > 0) {
+        return
+      }
+      lastLayoutRef.current = null
+      setHexes(
+        buildHexData(
+          stories,
+          precomputedPlacements,
+          themes,
+          storyAssignments,
+          precomputedFootprints,
+        ),
+      )
+      autoFitAppliedRef.current = ''
       return
     }
 
@@ -122,6 +362,10 @@ export function LivingHive<T extends BaseStory = BaseStory>({
       return
     }
 
+    // Aborted when inputs change again, so a stale layout never replaces a newer one
+    const controller = new AbortController()
+    const { signal } = controller
+
     const generateHexes = async () => {
       try {
         // Filter out stories without embeddings
@@ -141,53 +385,93 @@ export function LivingHive<T extends BaseStory = BaseStory>({
           text: story.text,
           embedding: embeddings.get(story.id)!,
           cluster_id: storyAssignments.get(story.id) || themes[0]?.id,
+          weight: weight?.(story),
         }))
 
-        const norm = {
-          min_x: -10.0,
-          max_x: 10.0,
-          min_y: -10.0,
-          max_y: 10.0,
-        }
-
         const canvas = canvasRef.current
         const rect = canvas?.getBoundingClientRect()
         const canvasWidth = rect?.width || fallbackCanvasWidth || 900
         const canvasHeight = rect?.height || fallbackCanvasHeight || 600
 
-        const result = await computePlacement(storyData, norm, {
+        const placementConfig = {
           canvasWidth,
           canvasHeight,
           hexRadius: config?.hexRadius || getHexRadius(),
           margin: config?.margin || 20,
-        })
+          seed: resolvedSeed,
+          projection: resolvedProjection,
+          umap: resolvedUmap,
+          tsne: resolvedTsne,
+          normalization: config?.normalization,
+          assignment: config?.assignment,
+          layoutMode: resolvedLayoutMode,
+          alignment: config?.alignment,
+          shape: resolvedShape,
+          orientation: resolvedOrientation,
+          maxHexes: resolvedMaxHexes,
+        }
+        const layoutKey = JSON.stringify(placementConfig, (_key, value: unknown) =>
+          typeof value === 'function' ? value.toString() : value,
+        )
+
+        // Reuse the fitted model when only new stories were added to the same layout.
+        // Only semantic layouts can be extended: territories and hybrid layouts depend
+        // on every theme's members, so a new story reshapes them. Theme assignments are
+        // not compared, as k-means relabels stories whenever one is added, and semantic
+        // placement does not depend on them
+        const previous = lastLayoutRef.current
+        const storyIds = new Set(storyData.map(story => story.id))
+        const canExtendLayout =
+          previous !== null &&
+          (resolvedLayoutMode ?? 'semantic') === 'semantic' &&
+          previous.key === layoutKey &&
+          previous.embeddings.size >= 2 &&
+          Array.from(previous.embeddings).every(
+            ([id, embedding]) => storyIds.has(id) && embeddings.get(id) === embedding,
+          ) &&
+          // Crossing the hex budget switches between binned and regular layouts
+          Boolean(previous.result.binned) === storyData.length > resolvedMaxHexes &&
+          storyData.every(
+            story =>
+              !previous.weights.has(story.id) || previous.weights.get(story.id) === story.weight,
+          )
+
+        let result: PlacementResult
+        if (canExtendLayout) {
+          const addedStories = storyData.filter(story => !previous.embeddings.has(story.id))
+          result =
+            addedStories.length > 0 ? await addStories(addedStories, signal) : previous.result
+        } else {
+          result = await computePlacement(storyData, undefined, placementConfig, signal)
+        }
 
-        const themeMap = new Map<string, Theme>()
-        themes.forEach(theme => {
-          themeMap.set(theme.id, theme)
-        })
+        if (signal.aborted) return
 
-        const storyMap = new Map(validStories.map(story => [story.id, story]))
-        const newHexes: HexData<T>[] = []
-        result.placements.forEach((hexCoord, storyId) => {
-          const story = storyMap.get(storyId)
-          if (!story) return
-
-          const themeId = storyAssignments.get(storyId) || themes[0]?.id
-          const theme = themeId ? themeMap.get(themeId) || null : null
-
-          newHexes.push({
-            q: hexCoord.q,
-            r: hexCoord.r,
-            theme,
-            story,
-          })
-        })
+        // A cached result has no fitted model behind it to extend
+        lastLayoutRef.current = result.fromCache
+          ? null
+          : {
+              key: layoutKey,
+              embeddings: new Map(storyData.map(story => [story.id, story.embedding])),
+              weights: new Map(storyData.map(story => [story.id, story.weight])),
+              result,
+            }
 
-        setHexes(newHexes)
+        setHexes(
+          buildHexData(
+            validStories,
+            result.placements,
+            themes,
+            storyAssignments,
+            result.footprints,
+          ),
+        )
         // Reset auto-fit flag so it runs for the new hex set
         autoFitAppliedRef.current = ''
       } catch (error) {
+        if (isAbortError(error) || signal.aborted) return
+
+        lastLayoutRef.current = null
         if (onError) {
           onError(error instanceof Error ? error : new Error(String(error)))
         }
@@ -196,18 +480,94 @@ export function LivingHive<T extends BaseStory = BaseStory>({
     }
 
     generateHexes()
+
+    return () => controller.abort()
   }, [
     stories,
     themes,
     embeddings,
     storyAssignments,
     config,
+    resolvedSeed,
+    resolvedUmap,
+    resolvedProjection,
+    resolvedTsne,
+    resolvedLayoutMode,
+    resolvedShape,
+    resolvedOrientation,
+    resolvedMaxHexes,
+    precomputedPlacements,
+    precomputedFootprints,
+    weight,
     computePlacement,
+    addStories,
     onError,
     fallbackCanvasWidth,
     fallbackCanvasHeight,
   ])
 
+  // Semantic matches come from embedding the query, once the user pauses typing
+  useEffect(() => {
+    const query = searchQuery.trim()
+    if (!embedQuery || !query) {
+      setSemanticMatchIds([])
+      return
+    }
+
+    let cancelled = false
+    const timer = setTimeout(() => {
+      embedQuery(query)
+        .then(queryEmbedding => {
+          if (cancelled) return
+          const textMatches = new Set(findTextMatches(stories, query))
+          setSemanticMatchIds(
+            findSemanticMatches(
+              queryEmbedding,
+              embeddings,
+              semanticResults,
+              textMatches,
+              minSimilarity,
+            ),
+          )
+        })
+        .catch(error => {
+          if (cancelled) return
+          onError?.(error instanceof Error ? error : new Error(String(error)))
+        })
+    }, SEARCH_DEBOUNCE_MS)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [searchQuery, embedQuery, stories, embeddings, semanticResults, minSimilarity, onError])
+
+  // Stories matching the search (text matches first), or the highlight prop otherwise
+  const searchMatchIds = useMemo(
+    () =>
+      searchActive
+        ? Array.from(new Set([...findTextMatches(stories, searchQuery), ...semanticMatchIds]))
+        : [],
+    [searchActive, stories, searchQuery, semanticMatchIds],
+  )
+  const highlightMatcher = useMemo(() => {
+    if (!searchActive) return createHighlightMatcher(highlight)
+    const matches = new Set(searchMatchIds)
+    return (story: T) => matches.has(story.id)
+  }, [searchActive, searchMatchIds, highlight])
+
+  // Indices of the hexes holding search matches, in match order
+  const searchMatchHexIndices = useMemo(() => {
+    const hexIndexByStory = new Map<string, number>()
+    hexes.forEach((hex, index) => {
+      hex.stories.forEach(story => hexIndexByStory.set(story.id, index))
+    })
+    const indices = searchMatchIds
+      .map(id => hexIndexByStory.get(id))
+      .filter((index): index is number => index !== undefined)
+    return Array.from(new Set(indices))
+  }, [hexes, searchMatchIds])
+
   const drawHex = useCallback(
     (
       ctx: CanvasRenderingContext2D,
@@ -216,26 +576,46 @@ export function LivingHive<T extends BaseStory = BaseStory>({
       radius: number,
       hex: HexData<T>,
       isSelected: boolean,
+      level: DetailLevel,
+      textColor: string,
     ) => {
       const fillColor = hex.theme
         ? getThemeColor(hex.theme.id, themes, colorPalette)
         : colorPalette[0]
 
       ctx.save()
+      // Binned hexes holding fewer stories are fainter
+      ctx.globalAlpha *= MIN_BIN_OPACITY + (1 - MIN_BIN_OPACITY) * hex.density
+
+      // The rings of a footprint form a hexagon turned 30° from its cells
+      const orientation =
+        hex.footprint > 0
+          ? resolvedOrientation === 'pointy'
+            ? 'flat'
+            : 'pointy'
+          : resolvedOrientation
 
       ctx.beginPath()
-      for (let i = 0; i < 6; i++) {
-        const angle = (Math.PI / 3) * i
-        const hexX = x + radius * Math.cos(angle)
-        const hexY = y + radius * Math.sin(angle)
+      hexCorners(x, y, radius, orientation).forEach((corner, i) => {
         if (i === 0) {
-          ctx.moveTo(hexX, hexY)
+          ctx.moveTo(corner.x, corner.y)
         } else {
-          ctx.lineTo(hexX, hexY)
+          ctx.lineTo(corner.x, corner.y)
         }
-      }
+      })
       ctx.closePath()
 
+      // Zoomed far out, hexes of a theme merge into one flat region
+      if (level === 'regions' && !isSelected) {
+        ctx.fillStyle = fillColor
+        ctx.fill()
+        ctx.strokeStyle = fillColor
+        ctx.lineWidth = 2
+        ctx.stroke()
+        ctx.restore()
+        return
+      }
+
       const gradient = ctx.createRadialGradient(x, y, 0, x, y, radius)
       gradient.addColorStop(0, fillColor)
       gradient.addColorStop(1, fillColor + '80')
@@ -251,18 +631,49 @@ export function LivingHive<T extends BaseStory = BaseStory>({
         ctx.shadowColor = fillColor
         ctx.shadowBlur = 15
         ctx.stroke()
+        ctx.shadowBlur = 0
+      }
+
+      // Zoomed far in, there is room for the story text and a count of binned stories
+      if (level === 'detail') {
+        const fontSize = radius * 0.22
+        ctx.fillStyle = textColor
+        ctx.font = `${fontSize}px system-ui, sans-serif`
+        ctx.textAlign = 'center'
+        ctx.textBaseline = 'middle'
+        const lines = wrapText(hex.story.text, radius * 1.3, 3, text => ctx.measureText(text).width)
+        lines.forEach((line, i) => {
+          ctx.fillText(line, x, y + (i - (lines.length - 1) / 2) * fontSize * 1.2)
+        })
+
+        if (hex.stories.length > 1) {
+          const badgeX = x + radius * 0.5
+          const badgeY = y - radius * 0.6
+          const badgeRadius = radius * 0.2
+          ctx.beginPath()
+          ctx.arc(badgeX, badgeY, badgeRadius, 0, 2 * Math.PI)
+          ctx.fillStyle = textColor
+          ctx.fill()
+          ctx.fillStyle = fillColor
+          ctx.font = `bold ${badgeRadius}px system-ui, sans-serif`
+          ctx.fillText(String(hex.stories.length), badgeX, badgeY)
+        }
       }
 
       ctx.restore()
     },
-    [colorPalette, themes],
+    [colorPalette, themes, resolvedOrientation],
   )
 
-  // Render hexes to canvas
+  // Render hexes to canvas, tweening from the previous layout when the hexes change
   useEffect(() => {
     const canvas = canvasRef.current
     const container = containerRef.current
     if (!canvas || !hexes.length) {
+      // Nothing is on screen, so the next layout fades in rather than moving
+      displayedFramesRef.current = new Map()
+      drawnHexesRef.current = new Map()
+      transitionRef.current = null
       return
     }
 
@@ -288,60 +699,187 @@ export function LivingHive<T extends BaseStory = BaseStory>({
     const canvasBackgroundValue =
       computedStyles?.getPropertyValue('--living-hive-canvas-background') ?? ''
     const canvasBorderValue = computedStyles?.getPropertyValue('--living-hive-canvas-border') ?? ''
+    const labelColorValue = computedStyles?.getPropertyValue('--living-hive-label-color') ?? ''
+    const labelHaloValue = computedStyles?.getPropertyValue('--living-hive-label-halo') ?? ''
+    const labelFontFamilyValue =
+      computedStyles?.getPropertyValue('--living-hive-label-font-family') ?? ''
+    const hexTextColorValue = computedStyles?.getPropertyValue('--living-hive-hex-text-color') ?? ''
     const canvasBackground = canvasBackgroundValue.trim() || '#1a1a1a'
     const canvasBorder = canvasBorderValue.trim() || '#404040'
+    const labelColor = labelColorValue.trim() || '#f5f5f0'
+    const labelHalo = labelHaloValue.trim() || canvasBackground
+    const labelFontFamily = labelFontFamilyValue.trim() || 'system-ui, sans-serif'
+    const hexTextColor = hexTextColorValue.trim() || '#ffffff'
+    const level = resolveDetailLevel(zoom, levelOfDetail)
 
-    // Fill with background color
-    ctx.fillStyle = canvasBackground
-    ctx.fillRect(0, 0, rect.width, rect.height)
+    const hexRadius = config?.hexRadius || getHexRadius()
 
-    // Draw outline/border
-    ctx.strokeStyle = canvasBorder
-    ctx.lineWidth = 2
-    ctx.strokeRect(1, 1, rect.width - 2, rect.height - 2)
+    // A new layout starts a transition from wherever the hexes are drawn right now
+    if (layoutHexesRef.current !== hexes) {
+      const duration = resolveTransitionDuration(transition)
+      const targets = new Map(
+        hexes.map(hex => [hex.story.id, hexToPixel(hex, hexRadius, resolvedOrientation)]),
+      )
+      const leaving = new Map(Array.from(drawnHexesRef.current).filter(([id]) => !targets.has(id)))
+
+      transitionRef.current =
+        duration > 0
+          ? {
+              plan: planLayoutTransition(displayedFramesRef.current, targets),
+              leaving,
+              start: performance.now(),
+              duration,
+              easing: resolveEasing(typeof transition === 'object' ? transition.easing : undefined),
+            }
+          : null
+      layoutHexesRef.current = hexes
+    }
 
-    const hexRadius = config?.hexRadius || getHexRadius()
+    // Name each theme at the centroid of its hexes, in screen space so labels stay
+    // readable however far out the user zooms. Zoomed out to regions, labels also count
+    // the stories in each theme.
+    const drawThemeLabels = (frames: Map<string, HexFrame> | null, withCounts: boolean) => {
+      const anchors = themeLabelAnchors(
+        hexes.map(hex => ({
+          ...(frames?.get(hex.story.id) ?? hexToPixel(hex, hexRadius, resolvedOrientation)),
+          theme: hex.theme,
+          count: hex.stories.length,
+        })),
+      )
+      const fontSize = themeLabelFontSize(
+        zoom,
+        typeof themeLabels === 'object' ? themeLabels : undefined,
+      )
+      const countFontSize = fontSize * 0.8
+      const labelFont = `600 ${fontSize}px ${labelFontFamily}`
+      const countFont = `${countFontSize}px ${labelFontFamily}`
+      const countText = (count: number) => `${count} ${count === 1 ? 'story' : 'stories'}`
+
+      const boxes = anchors.map(({ theme, x, y, count }) => {
+        ctx.font = labelFont
+        let width = ctx.measureText(theme.label).width
+        let height = fontSize * 1.2
+        if (withCounts) {
+          ctx.font = countFont
+          width = Math.max(width, ctx.measureText(countText(count)).width)
+          height += countFontSize * 1.2
+        }
+        return { x: x * zoom + panX, y: y * zoom + panY, width, height }
+      })
 
-    // Apply zoom and pan transforms
-    ctx.save()
-    ctx.translate(panX, panY)
-    ctx.scale(zoom, zoom)
+      ctx.save()
+      ctx.textAlign = 'center'
+      ctx.textBaseline = 'middle'
+      ctx.lineJoin = 'round'
+      ctx.lineWidth = 3
+      ctx.strokeStyle = labelHalo
+      ctx.fillStyle = labelColor
+      placeLabels(boxes).forEach((position, index) => {
+        if (!position) return
+        const { theme, count } = anchors[index]
+        const labelY = withCounts ? position.y - (countFontSize * 1.2) / 2 : position.y
+        ctx.font = labelFont
+        ctx.strokeText(theme.label, position.x, labelY)
+        ctx.fillText(theme.label, position.x, labelY)
+        if (withCounts) {
+          const countY = position.y + (fontSize * 1.2) / 2
+          ctx.font = countFont
+          ctx.strokeText(countText(count), position.x, countY)
+          ctx.fillText(countText(count), position.x, countY)
+        }
+      })
+      ctx.restore()
+    }
 
-    // Calculate center offset (hexes are positioned relative to center)
-    const centerX = 0
-    const centerY = 0
+    const drawFrame = (now: number): boolean => {
+      const active = transitionRef.current
+      const elapsed = active ? Math.min(1, (now - active.start) / active.duration) : 1
+      const frames = active ? interpolateTransition(active.plan, active.easing(elapsed)) : null
 
-    hexes.forEach((hex, index) => {
-      const pixel = hexToPixel(hex, hexRadius)
-      const x = centerX + pixel.x
-      const y = centerY + pixel.y
-
-      // Check if hex is visible (accounting for zoom)
-      const screenX = x * zoom + panX
-      const screenY = y * zoom + panY
-      const screenRadius = hexRadius * zoom
-
-      if (
-        screenX < -screenRadius ||
-        screenX > rect.width + screenRadius ||
-        screenY < -screenRadius ||
-        screenY > rect.height + screenRadius
-      ) {
-        return
+      // Fill with background color
+      ctx.fillStyle = canvasBackground
+      ctx.fillRect(0, 0, rect.width, rect.height)
+
+      // Draw outline/border
+      ctx.strokeStyle = canvasBorder
+      ctx.lineWidth = 2
+      ctx.strokeRect(1, 1, rect.width - 2, rect.height - 2)
+
+      // Apply zoom and pan transforms
+      ctx.save()
+      ctx.translate(panX, panY)
+      ctx.scale(zoom, zoom)
+
+      const drawAt = (hex: HexData<T>, isSelected: boolean) => {
+        const frame = frames?.get(hex.story.id) ?? {
+          ...hexToPixel(hex, hexRadius, resolvedOrientation),
+          alpha: 1,
+        }
+        if (frame.alpha <= 0) return
+
+        // Check if hex is visible (accounting for zoom)
+        const screenX = frame.x * zoom + panX
+        const screenY = frame.y * zoom + panY
+        const radius = drawnRadius(hex, hexRadius)
+        const screenRadius = radius * zoom
+
+        if (
+          screenX < -screenRadius ||
+          screenX > rect.width + screenRadius ||
+          screenY < -screenRadius ||
+          screenY > rect.height + screenRadius
+        ) {
+          return
+        }
+
+        ctx.save()
+        const dimmed = highlightMatcher !== null && !hex.stories.some(highlightMatcher)
+        ctx.globalAlpha = frame.alpha * (dimmed ? DIMMED_OPACITY : 1)
+        drawHex(ctx, frame.x, frame.y, radius, hex, isSelected, level, hexTextColor)
+        ctx.restore()
       }
 
-      const isFocused = focusedHexIndex === index
-      drawHex(ctx, x, y, hexRadius, hex, isFocused)
-    })
+      // Removed stories fade out underneath the current layout
+      active?.leaving.forEach(hex => drawAt(hex, false))
+      hexes.forEach((hex, index) => drawAt(hex, focusedHexIndex === index))
+      if (selectedHex) {
+        drawAt(selectedHex, true)
+      }
+
+      ctx.restore()
+
+      if (level === 'regions' || themeLabels) {
+        drawThemeLabels(frames, level === 'regions')
+      }
+
+      displayedFramesRef.current =
+        frames ??
+        new Map(
+          hexes.map(hex => [
+            hex.story.id,
+            { ...hexToPixel(hex, hexRadius, resolvedOrientation), alpha: 1 },
+          ]),
+        )
+      drawnHexesRef.current = new Map(hexes.map(hex => [hex.story.id, hex]))
+      active?.leaving.forEach((hex, id) => {
+        if ((frames?.get(id)?.alpha ?? 0) > 0) drawnHexesRef.current.set(id, hex)
+      })
+
+      if (active && elapsed >= 1) {
+        transitionRef.current = null
+      }
+      return transitionRef.current === null
+    }
 
-    if (selectedHex) {
-      const pixel = hexToPixel(selectedHex, hexRadius)
-      const x = centerX + pixel.x
-      const y = centerY + pixel.y
-      drawHex(ctx, x, y, hexRadius, selectedHex, true)
+    let frameId: number | null = null
+    const tick = (now: number) => {
+      frameId = drawFrame(now) ? null : requestAnimationFrame(tick)
     }
+    tick(performance.now())
 
-    ctx.restore()
+    return () => {
+      if (frameId !== null) cancelAnimationFrame(frameId)
+    }
   }, [
     hexes,
     selectedHex,
@@ -351,6 +889,11 @@ export function LivingHive<T extends BaseStory = BaseStory>({
     panX,
     panY,
     drawHex,
+    transition,
+    levelOfDetail,
+    themeLabels,
+    highlightMatcher,
+    resolvedOrientation,
     canvasCssVariables,
     className,
     fallbackCanvasWidth,
@@ -402,11 +945,13 @@ export function LivingHive<T extends BaseStory = BaseStory>({
           maxY = -Infinity
 
         hexes.forEach(hex => {
-          const pixel = hexToPixel(hex, hexRadius)
-          minX = Math.min(minX, pixel.x)
-          maxX = Math.max(maxX, pixel.x)
-          minY = Math.min(minY, pixel.y)
-          maxY = Math.max(maxY, pixel.y)
+          const pixel = hexToPixel(hex, hexRadius, resolvedOrientation)
+          // Footprints reach beyond their center by more than the padding allows for
+          const extent = drawnRadius(hex, hexRadius) - hexRadius
+          minX = Math.min(minX, pixel.x - extent)
+          maxX = Math.max(maxX, pixel.x + extent)
+          minY = Math.min(minY, pixel.y - extent)
+          maxY = Math.max(maxY, pixel.y + extent)
         })
 
         const hexWidth = maxX - minX
@@ -440,7 +985,7 @@ export function LivingHive<T extends BaseStory = BaseStory>({
         cancelAnimationFrame(frameId2)
       }
     }
-  }, [hexes, config, isFullscreen])
+  }, [hexes, config, resolvedOrientation, isFullscreen])
 
   // Handle window resize - trigger re-render with zoom/pan
   useEffect(() => {
@@ -535,19 +1080,67 @@ export function LivingHive<T extends BaseStory = BaseStory>({
     }
   }, [])
 
-  // Handle mouse move for panning
-  const handleMouseMove = useCallback((event: ReactMouseEvent<HTMLCanvasElement>) => {
-    if (!isDraggingRef.current) return
-    event.preventDefault()
-    setPanX(event.clientX - dragStartRef.current.x)
-    setPanY(event.clientY - dragStartRef.current.y)
-  }, [])
+  // Index of the hex under a point on screen, or -1 when there is none
+  const findHexIndexAt = useCallback(
+    (clientX: number, clientY: number) => {
+      const canvas = canvasRef.current
+      if (!canvas) return -1
+
+      const rect = canvas.getBoundingClientRect()
+      // Convert screen coordinates to world coordinates
+      const worldX = (clientX - rect.left - panX) / zoom
+      const worldY = (clientY - rect.top - panY) / zoom
+      const hexRadius = config?.hexRadius || getHexRadius()
+
+      return hexes.findIndex(hex => {
+        const pixel = hexToPixel(hex, hexRadius, resolvedOrientation)
+        const distance = Math.sqrt((worldX - pixel.x) ** 2 + (worldY - pixel.y) ** 2)
+        return distance <= drawnRadius(hex, hexRadius)
+      })
+    },
+    [hexes, config, resolvedOrientation, zoom, panX, panY],
+  )
+
+  const updateHoveredHex = useCallback(
+    (hex: HexData<T> | null) => {
+      if (hex === hoveredHex) return
+      setHoveredHex(hex)
+      onHexHover?.(hex?.story ?? null, hex?.theme ?? null, hex?.stories ?? [])
+    },
+    [hoveredHex, onHexHover],
+  )
+
+  // A re-layout replaces the hexes, so the hovered one is gone: tell the listener the
+  // pointer left it rather than leave the tooltip pointing at a stale hex
+  useEffect(() => {
+    if (hoveredHex && !hexes.includes(hoveredHex)) updateHoveredHex(null)
+  }, [hexes, hoveredHex, updateHoveredHex])
+
+  // Handle mouse move for panning, and hover while not panning
+  const handleMouseMove = useCallback(
+    (event: ReactMouseEvent<HTMLCanvasElement>) => {
+      if (!isDraggingRef.current) {
+        const index = findHexIndexAt(event.clientX, event.clientY)
+        updateHoveredHex(index === -1 ? null : hexes[index])
+        return
+      }
+      event.preventDefault()
+      setPanX(event.clientX - dragStartRef.current.x)
+      setPanY(event.clientY - dragStartRef.current.y)
+    },
+    [findHexIndexAt, updateHoveredHex, hexes],
+  )
 
   // Handle mouse up
   const handleMouseUp = useCallback(() => {
     isDraggingRef.current = false
   }, [])
 
+  const handleMouseLeave = useCallback(() => {
+    isDraggingRef.current = false
+    updateHoveredHex(null)
+  }, [updateHoveredHex])
+
   const handleCanvasClick = useCallback(
     (event: ReactMouseEvent<HTMLCanvasElement>) => {
       // Don't trigger click if we were dragging
@@ -556,46 +1149,21 @@ export function LivingHive<T extends BaseStory = BaseStory>({
         return
       }
 
-      const canvas = canvasRef.current
-      if (!canvas) return
-
-      const rect = canvas.getBoundingClientRect()
-      // Convert screen coordinates to world coordinates
-      const worldX = (event.clientX - rect.left - panX) / zoom
-      const worldY = (event.clientY - rect.top - panY) / zoom
-      const hexRadius = config?.hexRadius || getHexRadius()
-      const centerX = 0
-      const centerY = 0
-
-      let foundHex: HexData<T> | null = null
-      let foundIndex = -1
-
-      for (let i = 0; i < hexes.length; i++) {
-        const hex = hexes[i]
-        const pixel = hexToPixel(hex, hexRadius)
-        const hexX = centerX + pixel.x
-        const hexY = centerY + pixel.y
-        const distance = Math.sqrt((worldX - hexX) ** 2 + (worldY - hexY) ** 2)
-
-        if (distance <= hexRadius) {
-          foundHex = hex
-          foundIndex = i
-          break
-        }
-      }
+      const foundIndex = findHexIndexAt(event.clientX, event.clientY)
+      const foundHex = foundIndex === -1 ? null : hexes[foundIndex]
 
       if (foundHex) {
         setSelectedHex(foundHex)
         setFocusedHexIndex(foundIndex)
         if (onHexClick) {
-          onHexClick(foundHex.story, foundHex.theme)
+          onHexClick(foundHex.story, foundHex.theme, foundHex.stories)
         }
       } else {
         setSelectedHex(null)
         setFocusedHexIndex(null)
       }
     },
-    [hexes, config, onHexClick, zoom, panX, panY],
+    [hexes, findHexIndexAt, onHexClick],
   )
 
   // Keyboard navigation
@@ -629,7 +1197,7 @@ export function LivingHive<T extends BaseStory = BaseStory>({
             const hex = hexes[focusedHexIndex]
             setSelectedHex(hex)
             if (onHexClick) {
-              onHexClick(hex.story, hex.theme)
+              onHexClick(hex.story, hex.theme, hex.stories)
             }
           }
           break
@@ -637,6 +1205,7 @@ export function LivingHive<T extends BaseStory = BaseStory>({
           event.preventDefault()
           setSelectedHex(null)
           setFocusedHexIndex(null)
+          updateHoveredHex(null)
           break
         default:
           return
@@ -647,11 +1216,69 @@ export function LivingHive<T extends BaseStory = BaseStory>({
         setSelectedHex(hexes[newIndex])
       }
     },
-    [hexes, focusedHexIndex, onHexClick],
+    [hexes, focusedHexIndex, onHexClick, updateHoveredHex],
   )
 
-  if (loading) {
-    return <HiveShimmer className={className} />
+  // Select the next or previous search match and pan it to the center of the canvas
+  const goToSearchMatch = useCallback(
+    (step: 1 | -1) => {
+      const count = searchMatchHexIndices.length
+      if (count === 0) return
+
+      const matchIndex =
+        searchMatchIndex === null
+          ? step === 1
+            ? 0
+            : count - 1
+          : (((searchMatchIndex + step) % count) + count) % count
+      const hexIndex = searchMatchHexIndices[matchIndex]
+      const hex = hexes[hexIndex]
+      setSearchMatchIndex(matchIndex)
+      setSelectedHex(hex)
+      setFocusedHexIndex(hexIndex)
+
+      const canvas = canvasRef.current
+      if (!canvas) return
+      const rect = canvas.getBoundingClientRect()
+      const pixel = hexToPixel(hex, config?.hexRadius || getHexRadius(), resolvedOrientation)
+      setPanX(rect.width / 2 - pixel.x * zoom)
+      setPanY(rect.height / 2 - pixel.y * zoom)
+    },
+    [searchMatchHexIndices, searchMatchIndex, hexes, config, resolvedOrientation, zoom],
+  )
+
+  const handleSearchChange = useCallback((event: ReactChangeEvent<HTMLInputElement>) => {
+    setSearchQuery(event.target.value)
+    setSearchMatchIndex(null)
+  }, [])
+
+  const handleSearchSubmit = useCallback(
+    (event: ReactFormEvent<HTMLFormElement>) => {
+      event.preventDefault()
+      goToSearchMatch(1)
+    },
+    [goToSearchMatch],
+  )
+
+  // Typing in the search box must not reach the hive's keyboard navigation
+  const handleSearchKeyDown = useCallback(
+    (event: ReactKeyboardEvent<HTMLInputElement>) => {
+      event.stopPropagation()
+      if (event.key === 'Enter' && event.shiftKey) {
+        event.preventDefault()
+        goToSearchMatch(-1)
+      } else if (event.key === 'Escape') {
+        event.preventDefault()
+        setSearchQuery('')
+        setSearchMatchIndex(null)
+      }
+    },
+    [goToSearchMatch],
+  )
+
+  // A re-layout keeps the current hive on screen, so it can animate into the new one
+  if (loading && !hexes.length) {
+    return <HiveShimmer ref={setRootElement} className={className} progress={placementProgress} />
   }
 
   if (placementError) {
@@ -677,8 +1304,9 @@ export function LivingHive<T extends BaseStory = BaseStory>({
     )
   }
 
-  // Handle empty arrays gracefully with informative messages
-  if (themes.length === 0 || embeddings.size === 0) {
+  // Handle empty arrays gracefully with informative messages. Precomputed placements need
+  // neither: without embeddings the hexes take the first theme's color
+  if (!precomputedPlacements && (themes.length === 0 || embeddings.size === 0)) {
     return (
       <div className={cn('h-[calc(100vh-312px)] flex items-center justify-center', className)}>
         <div className="text-center">
@@ -703,7 +1331,10 @@ export function LivingHive<T extends BaseStory = BaseStory>({
 
   if (!hexes.length) {
     return (
-      <div className={cn('h-[calc(100vh-312px)] flex items-center justify-center', className)}>
+      <div
+        ref={setRootElement}
+        className={cn('h-[calc(100vh-312px)] flex items-center justify-center', className)}
+      >
         <div className="text-center">
           <p className="text-muted-foreground mb-2">Computing positions...</p>
           <p className="text-sm text-muted-foreground">
@@ -732,23 +1363,78 @@ export function LivingHive<T extends BaseStory = BaseStory>({
     }
   }
 
+  // Tooltip for the hex under the pointer, or else the one reached with the keyboard
+  const tooltipHex =
+    (hoveredHex && hexes.includes(hoveredHex) ? hoveredHex : null) ??
+    (focusedHexIndex !== null ? (hexes[focusedHexIndex] ?? null) : null)
+  let tooltipContent: ReactNode = null
+  let tooltipAnchor: CSSProperties | undefined
+  if (tooltipHex) {
+    const { story, theme, stories: hexStories } = tooltipHex
+    tooltipContent = renderTooltip ? (
+      renderTooltip(story, theme, hexStories)
+    ) : (
+      <>
+        <div className="flex items-center gap-2 mb-1 font-medium">
+          <span
+            className="inline-block w-3 h-3 rounded-full shrink-0"
+            style={{
+              backgroundColor: theme
+                ? getThemeColor(theme.id, themes, colorPalette)
+                : colorPalette[0],
+            }}
+            aria-hidden="true"
+          />
+          <span>{theme?.label ?? 'Unassigned'}</span>
+        </div>
+        <p>{excerpt(story.text, TOOLTIP_EXCERPT_LENGTH)}</p>
+        {hexStories.length > 1 && (
+          <p className="mt-1 opacity-80">
+            +{hexStories.length - 1} more {hexStories.length === 2 ? 'story' : 'stories'} in this
+            hex
+          </p>
+        )}
+      </>
+    )
+
+    // Above the hex, following it as the user zooms and pans
+    const hexRadius = config?.hexRadius || getHexRadius()
+    const pixel = hexToPixel(tooltipHex, hexRadius, resolvedOrientation)
+    tooltipAnchor = {
+      left: pixel.x * zoom + panX,
+      top: (pixel.y - drawnRadius(tooltipHex, hexRadius)) * zoom + panY,
+    }
+  }
+  const showTooltip = tooltipContent !== null && tooltipContent !== undefined
+
+  const searchMatchCount = searchMatchHexIndices.length
+  const searchStatus = !searchActive
+    ? ''
+    : searchMatchCount === 0
+      ? 'No matches'
+      : searchMatchIndex !== null && searchMatchIndex < searchMatchCount
+        ? `${searchMatchIndex + 1} of ${searchMatchCount}`
+        : `${searchMatchCount} ${searchMatchCount === 1 ? 'match' : 'matches'}`
+
   // Keyboard navigation container intentionally focusable for arrow-key support
   /* eslint-disable jsx-a11y/no-noninteractive-element-interactions, jsx-a11y/no-noninteractive-tabindex */
   return (
     <div
-      ref={containerRef}
+      ref={setRootElement}
       className={cn('relative', className)}
       style={canvasCssVariables}
       onKeyDown={handleKeyDown}
       tabIndex={0}
       role="application"
       aria-label="Living Hive visualization"
+      aria-describedby={showTooltip ? tooltipId : undefined}
     >
       <div className="relative">
         <canvas
           ref={canvasRef}
           className={cn(
-            'living-hive__canvas cursor-move',
+            'living-hive__canvas',
+            hoveredHex ? 'cursor-pointer' : 'cursor-move',
             isFullscreen && 'living-hive__canvas--fullscreen',
           )}
           onClick={handleCanvasClick}
@@ -756,10 +1442,30 @@ export function LivingHive<T extends BaseStory = BaseStory>({
           onMouseDown={handleMouseDown}
           onMouseMove={handleMouseMove}
           onMouseUp={handleMouseUp}
-          onMouseLeave={handleMouseUp}
+          onMouseLeave={handleMouseLeave}
           aria-label="Interactive hex grid visualization (scroll to zoom, drag to pan)"
           tabIndex={-1}
         />
+        {showTooltip && (
+          <div
+            id={tooltipId}
+            role="tooltip"
+            className="living-hive__tooltip absolute z-20 max-w-xs px-3 py-2 rounded-lg text-sm pointer-events-none"
+            style={tooltipAnchor}
+          >
+            {tooltipContent}
+          </div>
+        )}
+        {loading && (
+          <div
+            className="living-hive__legend absolute top-2 left-2 z-10 px-3 py-1 rounded-lg backdrop-blur-sm text-sm"
+            role="status"
+          >
+            {placementProgress
+              ? `Updating layout... ${placementProgress.percent}%`
+              : 'Updating layout...'}
+          </div>
+        )}
         {/* Full-screen button */}
         <button
           onClick={handleFullscreen}
@@ -789,6 +1495,60 @@ export function LivingHive<T extends BaseStory = BaseStory>({
         </button>
       </div>
 
+      {search && (
+        <form
+          role="search"
+          className="living-hive__legend absolute bottom-4 left-4 z-10 flex items-center gap-1 rounded-lg px-2 py-1 text-sm backdrop-blur-sm"
+          onSubmit={handleSearchSubmit}
+        >
+          <input
+            type="search"
+            value={searchQuery}
+            onChange={handleSearchChange}
+            onKeyDown={handleSearchKeyDown}
+            placeholder={(typeof search === 'object' && search.placeholder) || 'Search stories'}
+            aria-label="Search stories"
+            className="living-hive__search-input w-44 rounded bg-transparent px-1 py-0.5"
+          />
+          <span className="living-hive__legend-value whitespace-nowrap" aria-live="polite">
+            {searchStatus}
+          </span>
+          <button
+            type="button"
+            onClick={() => goToSearchMatch(-1)}
+            disabled={searchMatchCount === 0}
+            className="p-1 rounded disabled:opacity-40"
+            aria-label="Previous match"
+            title="Previous match (Shift+Enter)"
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M5 15l7-7 7 7"
+              />
+            </svg>
+          </button>
+          <button
+            type="submit"
+            disabled={searchMatchCount === 0}
+            className="p-1 rounded disabled:opacity-40"
+            aria-label="Next match"
+            title="Next match (Enter)"
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M19 9l-7 7-7-7"
+              />
+            </svg>
+          </button>
+        </form>
+      )}
+
       {/* Legend */}
       <div className="living-hive__legend absolute bottom-4 right-4 backdrop-blur-sm rounded-lg px-3 py-2 text-sm z-10">
         <div className="flex items-center gap-4">
@@ -798,6 +1558,9 @@ export function LivingHive<T extends BaseStory = BaseStory>({
           <span className="living-hive__legend-value">
             {themes.length} {themes.length === 1 ? 'theme' : 'themes'}
           </span>
+          {hexes.some(hex => hex.stories.length > 1) && (
+            <span className="living-hive__legend-value">binned into {hexes.length} hexes</span>
+          )}
         </div>
       </div>
     </div>
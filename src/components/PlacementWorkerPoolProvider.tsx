@@ -0,0 +1,49 @@
+import { createContext, useContext, useEffect, useMemo, type ReactNode } from 'react'
+import { createPlacementWorkerPool, type PlacementWorkerPool } from '../utils/placementWorkerPool'
+
+const PlacementWorkerPoolContext = createContext<PlacementWorkerPool | null>(null)
+
+export interface PlacementWorkerPoolProviderProps {
+  /**
+   * Number of placement workers shared by the hives below. Defaults to one less than
+   * the CPU count, between 1 and 4.
+   */
+  size?: number
+  /**
+   * Worker script for the pool. Defaults to the worker URL of the first hive that
+   * connects.
+   */
+  workerUrl?: string | URL
+  children?: ReactNode
+}
+
+/**
+ * Share a small pool of placement workers between every `LivingHive` (and
+ * `useUMAPPlacement`) below, instead of one worker per hive. Queued layouts of hives
+ * on screen run before those scrolled out of view.
+ */
+export function PlacementWorkerPoolProvider({
+  size,
+  workerUrl,
+  children,
+}: PlacementWorkerPoolProviderProps) {
+  const workerUrlString = workerUrl === undefined ? undefined : String(workerUrl)
+  // Workers start lazily, so creating the pool during render has no side effects
+  const pool = useMemo(
+    () => createPlacementWorkerPool({ size, workerUrl: workerUrlString }),
+    [size, workerUrlString],
+  )
+
+  useEffect(() => () => pool.terminate(), [pool])
+
+  return (
+    <PlacementWorkerPoolContext.Provider value={pool}>
+      {children}
+    </PlacementWorkerPoolContext.Provider>
+  )
+}
+
+// The pool of the nearest PlacementWorkerPoolProvider, or null outside one
+export function usePlacementWorkerPool(): PlacementWorkerPool | null {
+  return useContext(PlacementWorkerPoolContext)
+}
@@ -0,0 +1,254 @@
+import { act } from 'react'
+import { createRoot } from 'react-dom/client'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { LivingHive } from '../LivingHive'
+import { getHexRadius, hexToPixel } from '../../utils/hex'
+
+// Lets React flush updates inside act() outside a testing library
+Object.assign(globalThis, { IS_REACT_ACT_ENVIRONMENT: true })
+
+const stories = [
+  { id: 'a', text: 'Pairing on the release' },
+  { id: 'b', text: 'A release that slipped' },
+  { id: 'c', text: 'Onboarding a new hire' },
+]
+
+const themes = [{ id: 'delivery', label: 'Delivery' }]
+
+const placements = new Map([
+  ['a', { q: 0, r: 0 }],
+  ['b', { q: 1, r: 0 }],
+  ['c', { q: 0, r: 1 }],
+])
+
+// Stands in for the placement worker: records requests and answers them on demand
+class MockWorker {
+  static instances: MockWorker[] = []
+  messages: Array<Record<string, unknown>> = []
+  private listeners = new Set<(event: { data: unknown }) => void>()
+
+  constructor() {
+    MockWorker.instances.push(this)
+  }
+
+  addEventListener(type: string, listener: (event: { data: unknown }) => void) {
+    if (type === 'message') this.listeners.add(listener)
+  }
+
+  removeEventListener(_type: string, listener: (event: { data: unknown }) => void) {
+    this.listeners.delete(listener)
+  }
+
+  postMessage(message: Record<string, unknown>) {
+    this.messages.push(message)
+  }
+
+  terminate() {
+    this.listeners.clear()
+  }
+
+  requestsOfType(type: string) {
+    return this.messages.filter(message => message.type === type)
+  }
+
+  // Places the requested stories in a row
+  answer(request: Record<string, unknown>, ids: string[]) {
+    const data = {
+      type: 'placementResult',
+      requestId: request.requestId,
+      placements: ids.map((id, q) => [id, { q, r: 0 }]),
+      umapCoords: ids.map((id, x) => ({ id, x, y: 0 })),
+    }
+    this.listeners.forEach(listener => listener({ data }))
+  }
+}
+
+// Moves the pointer onto a hex. The test canvas has no size, so the hive is neither
+// zoomed nor panned and hexes sit at their plain pixel positions
+function hoverHex(canvas: HTMLCanvasElement, hex: { q: number; r: number }) {
+  const { x, y } = hexToPixel(hex, getHexRadius())
+  canvas.dispatchEvent(new MouseEvent('mousemove', { bubbles: true, clientX: x, clientY: y }))
+}
+
+// Types into a controlled input the way React expects from a user
+function typeInto(input: HTMLInputElement, value: string) {
+  const setValue = Object.getOwnPropertyDescriptor(HTMLInputElement.prototype, 'value')!.set!
+  setValue.call(input, value)
+  input.dispatchEvent(new Event('input', { bubbles: true }))
+}
+
+describe('LivingHive', () => {
+  let container: HTMLDivElement
+
+  beforeEach(() => {
+    container = document.createElement('div')
+    document.body.appendChild(container)
+    // jsdom has no canvas; the hive skips drawing without a 2d context
+    vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockReturnValue(null)
+    vi.spyOn(console, 'error').mockImplementation(() => undefined)
+  })
+
+  afterEach(() => {
+    container.remove()
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+  })
+
+  it('renders precomputed placements without embeddings or a worker', () => {
+    const Worker = vi.fn()
+    vi.stubGlobal('Worker', Worker)
+
+    const root = createRoot(container)
+    act(() =>
+      root.render(
+        <LivingHive
+          stories={stories}
+          embeddings={new Map()}
+          themes={themes}
+          placements={placements}
+          search
+        />,
+      ),
+    )
+
+    expect(container.textContent).not.toContain('No embeddings provided')
+    expect(container.querySelector('[role="application"]')).not.toBeNull()
+
+    // Search counts the hexes holding matches, so it only finds stories that were laid out
+    const input = container.querySelector<HTMLInputElement>('input[type="search"]')!
+    act(() => typeInto(input, 'release'))
+    expect(container.querySelector('[aria-live="polite"]')?.textContent).toBe('2 matches')
+
+    expect(Worker).not.toHaveBeenCalled()
+    act(() => root.unmount())
+  })
+
+  it('aligns its first computed layout to the precomputed coordinates', async () => {
+    MockWorker.instances = []
+    vi.stubGlobal('Worker', MockWorker)
+    const embeddings = new Map([
+      ['a', [0, 0, 1]],
+      ['b', [0, 1, 0]],
+      ['c', [1, 0, 0]],
+    ])
+    const umapCoords = stories.map((story, x) => ({ id: story.id, x, y: 1 }))
+    const render = (precomputed?: typeof placements) => (
+      <LivingHive
+        stories={stories}
+        embeddings={embeddings}
+        themes={themes}
+        placements={precomputed}
+        umapCoords={umapCoords}
+        workerUrl="worker.js"
+        execution="worker"
+      />
+    )
+
+    const root = createRoot(container)
+    await act(async () => root.render(render(placements)))
+    expect(MockWorker.instances).toHaveLength(0)
+
+    await act(async () => root.render(render()))
+    const [fit] = MockWorker.instances[0].requestsOfType('computePlacement')
+    expect(fit.reference).toEqual(umapCoords)
+    act(() => root.unmount())
+  })
+
+  it('places appended stories with addStories instead of refitting', async () => {
+    MockWorker.instances = []
+    vi.stubGlobal('Worker', MockWorker)
+    const embeddings = new Map([
+      ['a', [0, 0, 1]],
+      ['b', [0, 1, 0]],
+      ['c', [1, 0, 0]],
+      ['d', [1, 1, 0]],
+    ])
+    const twoThemes = [...themes, { id: 'people', label: 'People' }]
+    const render = (shown: typeof stories) => (
+      <LivingHive
+        stories={shown}
+        embeddings={embeddings}
+        themes={twoThemes}
+        workerUrl="worker.js"
+        execution="worker"
+      />
+    )
+
+    const root = createRoot(container)
+    await act(async () => root.render(render(stories)))
+    const worker = MockWorker.instances[0]
+    const [fit] = worker.requestsOfType('computePlacement')
+    await act(async () => worker.answer(fit, ['a', 'b', 'c']))
+
+    const added = { id: 'd', text: 'A retro after the release' }
+    await act(async () => root.render(render([...stories, added])))
+
+    expect(worker.requestsOfType('computePlacement')).toHaveLength(1)
+    const [extension] = worker.requestsOfType('addStories')
+    expect((extension.stories as { ids: string[] }).ids).toEqual(['d'])
+    act(() => root.unmount())
+  })
+
+  describe('hover', () => {
+    const renderHive = (root: ReturnType<typeof createRoot>, props: object = {}) =>
+      act(() =>
+        root.render(
+          <LivingHive
+            stories={stories}
+            embeddings={new Map()}
+            themes={themes}
+            placements={placements}
+            {...props}
+          />,
+        ),
+      )
+    const tooltip = () => container.querySelector('[role="tooltip"]')
+
+    it('reports the hovered hex and shows its tooltip until the pointer leaves', () => {
+      const onHexHover = vi.fn()
+      const root = createRoot(container)
+      renderHive(root, { onHexHover })
+      const canvas = container.querySelector('canvas')!
+
+      act(() => hoverHex(canvas, { q: 1, r: 0 }))
+      expect(onHexHover).toHaveBeenLastCalledWith(stories[1], themes[0], [stories[1]])
+      expect(tooltip()?.textContent).toContain('Delivery')
+      expect(tooltip()?.textContent).toContain('A release that slipped')
+
+      act(() => {
+        canvas.dispatchEvent(
+          new MouseEvent('mouseout', { bubbles: true, relatedTarget: container }),
+        )
+      })
+      expect(onHexHover).toHaveBeenLastCalledWith(null, null, [])
+      expect(tooltip()).toBeNull()
+      act(() => root.unmount())
+    })
+
+    it('renders custom tooltip content', () => {
+      const root = createRoot(container)
+      renderHive(root, {
+        renderTooltip: (story: { text: string }, theme: { label: string } | null) =>
+          `${theme?.label}: ${story.text.toUpperCase()}`,
+      })
+
+      act(() => hoverHex(container.querySelector('canvas')!, { q: 0, r: 0 }))
+      expect(tooltip()?.textContent).toBe('Delivery: PAIRING ON THE RELEASE')
+      act(() => root.unmount())
+    })
+
+    it('clears the hover when a re-layout removes the hovered hex', () => {
+      const onHexHover = vi.fn()
+      const root = createRoot(container)
+      renderHive(root, { onHexHover })
+      act(() => hoverHex(container.querySelector('canvas')!, { q: 0, r: 1 }))
+      expect(onHexHover).toHaveBeenLastCalledWith(stories[2], themes[0], [stories[2]])
+
+      renderHive(root, { onHexHover, stories: stories.slice(0, 2) })
+      expect(onHexHover).toHaveBeenLastCalledWith(null, null, [])
+      expect(tooltip()).toBeNull()
+      act(() => root.unmount())
+    })
+  })
+})
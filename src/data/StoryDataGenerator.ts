@@ -1,4 +1,12 @@
-import type { BaseStory, Theme, GenerateEmbeddingsOptions, GenerateThemesOptions } from '../types'
+import type {
+  BaseStory,
+  Embedding,
+  Theme,
+  GenerateEmbeddingsOptions,
+  GenerateThemesOptions,
+} from '../types'
+import { cosineDistance } from '../utils/distance'
+import { resolveRandom, type RandomFn } from '../utils/random'
 
 interface EmbeddingDataItem {
   embedding: number[]
@@ -111,6 +119,11 @@ interface EmbeddingBatchResult {
   embedding: number[]
 }
 
+export interface AssignStoriesToThemesOptions {
+  // Seed for centroid initialization; omit for non-deterministic clustering
+  seed?: number
+}
+
 export interface StoryDataGeneratorOptions {
   embeddings?: GenerateEmbeddingsOptions
   themes?: GenerateThemesOptions
@@ -297,7 +310,12 @@ function normalizeThemes(content: unknown): Theme[] {
   throw new Error('Invalid theme response format')
 }
 
-function kMeansClustering(embeddings: number[][], k: number, maxIterations = 100): number[] {
+function kMeansClustering(
+  embeddings: Embedding[],
+  k: number,
+  random: RandomFn = Math.random,
+  maxIterations = 100,
+): number[] {
   if (embeddings.length === 0) return []
   if (k >= embeddings.length) {
     return embeddings.map((_, i) => i)
@@ -308,8 +326,8 @@ function kMeansClustering(embeddings: number[][], k: number, maxIterations = 100
   let assignments: number[] = new Array(embeddings.length).fill(0)
 
   for (let i = 0; i < k; i++) {
-    const randomIndex = Math.floor(Math.random() * embeddings.length)
-    centroids.push([...embeddings[randomIndex]])
+    const randomIndex = Math.floor(random() * embeddings.length)
+    centroids.push(Array.from(embeddings[randomIndex]))
   }
 
   for (let iteration = 0; iteration < maxIterations; iteration++) {
@@ -347,9 +365,9 @@ function kMeansClustering(embeddings: number[][], k: number, maxIterations = 100
 
       const centroid = new Array(dimension).fill(0)
       clusterPoints.forEach(point => {
-        point.forEach((val, i) => {
-          centroid[i] += val
-        })
+        for (let i = 0; i < dimension; i++) {
+          centroid[i] += point[i]
+        }
       })
 
       return centroid.map(val => val / clusterPoints.length)
@@ -359,26 +377,11 @@ function kMeansClustering(embeddings: number[][], k: number, maxIterations = 100
   return assignments
 }
 
-function cosineDistance(a: number[], b: number[]): number {
-  if (a.length !== b.length) return 1
-
-  let dotProduct = 0
-  let normA = 0
-  let normB = 0
-
-  for (let i = 0; i < a.length; i++) {
-    dotProduct += a[i] * b[i]
-    normA += a[i] * a[i]
-    normB += b[i] * b[i]
-  }
-
-  return 1 - dotProduct / (Math.sqrt(normA) * Math.sqrt(normB))
-}
-
 export function assignStoriesToThemes<T extends BaseStory>(
   stories: T[],
-  embeddings: Map<string, number[]>,
+  embeddings: Map<string, Embedding>,
   themes: Theme[],
+  options?: AssignStoriesToThemesOptions,
 ): Map<string, string> {
   const assignments = new Map<string, string>()
 
@@ -391,7 +394,7 @@ export function assignStoriesToThemes<T extends BaseStory>(
 
   const embeddingArray = validStories.map(story => embeddings.get(story.id)!)
   const k = Math.min(themes.length, validStories.length)
-  const clusterAssignments = kMeansClustering(embeddingArray, k)
+  const clusterAssignments = kMeansClustering(embeddingArray, k, resolveRandom(options?.seed))
 
   validStories.forEach((story, idx) => {
     const clusterId = clusterAssignments[idx]
@@ -406,7 +409,7 @@ export class StoryDataGenerator<T extends BaseStory = BaseStory> {
   private readonly embeddingDefaults: GenerateEmbeddingsOptions
   private readonly themeDefaults: GenerateThemesOptions
 
-  private lastEmbeddings: Map<string, number[]> | null = null
+  private lastEmbeddings: Map<string, Embedding> | null = null
   private lastThemes: Theme[] | null = null
 
   constructor(
@@ -500,7 +503,7 @@ export class StoryDataGenerator<T extends BaseStory = BaseStory> {
   }
 
   async generateThemes(
-    embeddings?: Map<string, number[]>,
+    embeddings?: Map<string, Embedding>,
     options?: GenerateThemesOptions,
   ): Promise<Theme[]> {
     const mergedOptions: GenerateThemesOptions = {
@@ -536,8 +539,9 @@ export class StoryDataGenerator<T extends BaseStory = BaseStory> {
   }
 
   assignStoriesToThemes(
-    embeddings: Map<string, number[]> = this.lastEmbeddings ?? new Map(),
+    embeddings: Map<string, Embedding> = this.lastEmbeddings ?? new Map(),
     themes: Theme[] = this.lastThemes ?? [],
+    options?: AssignStoriesToThemesOptions,
   ): Map<string, string> {
     if (themes.length === 0 || embeddings.size === 0) {
       throw new Error(
@@ -545,6 +549,6 @@ export class StoryDataGenerator<T extends BaseStory = BaseStory> {
       )
     }
 
-    return assignStoriesToThemes(this.stories, embeddings, themes)
+    return assignStoriesToThemes(this.stories, embeddings, themes, options)
   }
 }
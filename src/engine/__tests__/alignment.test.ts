@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest'
+
+import { alignToReference, fitSimilarityTransform } from '../alignment'
+
+const points: Array<[number, number]> = [
+  [0, 0],
+  [2, 1],
+  [-1, 3],
+  [4, -2],
+  [1, 1],
+]
+
+// Rotate by 40°, mirror across the x axis, scale by 2.5 and shift
+const moved = points.map(([x, y]): [number, number] => {
+  const angle = (40 * Math.PI) / 180
+  const rx = x * Math.cos(angle) - y * Math.sin(angle)
+  const ry = x * Math.sin(angle) + y * Math.cos(angle)
+  return [2.5 * rx + 7, -2.5 * ry - 3]
+})
+
+describe('fitSimilarityTransform', () => {
+  it('recovers rotation, reflection, scale and translation exactly', () => {
+    const transform = fitSimilarityTransform(points, moved)!
+
+    points.forEach(([x, y], index) => {
+      const [ax, ay] = transform(x, y)
+      expect(ax).toBeCloseTo(moved[index][0], 9)
+      expect(ay).toBeCloseTo(moved[index][1], 9)
+    })
+  })
+
+  it('needs at least three non-coincident points', () => {
+    expect(fitSimilarityTransform(points.slice(0, 2), moved.slice(0, 2))).toBeNull()
+    expect(
+      fitSimilarityTransform(
+        [
+          [1, 1],
+          [1, 1],
+          [1, 1],
+        ],
+        moved.slice(0, 3),
+      ),
+    ).toBeNull()
+  })
+})
+
+describe('alignToReference', () => {
+  it('matches points by story ID', () => {
+    const ids = points.map((_, index) => `story-${index}`)
+    // Reference in a different order, with one story that no longer exists
+    const reference = [
+      ...moved.map(([x, y], index) => ({ id: ids[index], x, y })).reverse(),
+      { id: 'removed', x: 100, y: 100 },
+    ]
+
+    const transform = alignToReference(ids, points, reference)!
+    expect(transform(...points[3])[0]).toBeCloseTo(moved[3][0], 9)
+  })
+})
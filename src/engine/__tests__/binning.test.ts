@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest'
+
+import { fitBinScale } from '../binning'
+import { createHiveLayout } from '../placement'
+import { pixelToHex } from '../../utils/hex'
+import { createSeededRandom } from '../../utils/random'
+
+const toHex = (pixel: { x: number; y: number }) => pixelToHex(pixel, 10)
+
+describe('fitBinScale', () => {
+  it('keeps the layout as is when it fits the budget', () => {
+    expect(
+      fitBinScale(
+        [
+          { x: 0, y: 0 },
+          { x: 100, y: 0 },
+        ],
+        2,
+        toHex,
+      ),
+    ).toBe(1)
+  })
+
+  it('pulls targets together until they fall into few enough hexes', () => {
+    const targets = Array.from({ length: 50 }, (_, i) => ({ x: (i % 10) * 30, y: i * 6 }))
+    const scale = fitBinScale(targets, 10, toHex)
+    const cells = new Set(
+      targets.map(({ x, y }) => {
+        const hex = toHex({ x: x * scale, y: y * scale })
+        return `${hex.q},${hex.r}`
+      }),
+    )
+
+    expect(scale).toBeGreaterThan(0)
+    expect(scale).toBeLessThan(1)
+    expect(cells.size).toBeLessThanOrEqual(10)
+  })
+})
+
+describe('binned placement', () => {
+  const random = createSeededRandom(11)
+  const makeStories = (count: number, offset = 0) =>
+    Array.from({ length: count }, (_, index) => ({
+      id: `story-${offset + index}`,
+      embedding: Array.from({ length: 8 }, () => random()),
+      weight: index,
+    }))
+  const config = { seed: 42, umap: { nEpochs: 50 }, maxHexes: 12 }
+
+  it('shares hexes between stories above the hex budget', async () => {
+    const stories = makeStories(60)
+    const layout = await createHiveLayout(stories, { config })
+    const { placements, binned, footprints } = layout.result
+    const cells = new Set(Array.from(placements.values(), hex => `${hex.q},${hex.r}`))
+
+    expect(binned).toBe(true)
+    expect(placements.size).toBe(60)
+    expect(cells.size).toBeLessThanOrEqual(12)
+    // Weights do not apply to binned layouts
+    expect(footprints).toBeUndefined()
+
+    const added = layout.addStories(makeStories(5, 60))
+    expect(added.placements.size).toBe(65)
+  })
+
+  it('gives every story its own hex within the budget', async () => {
+    const { result } = await createHiveLayout(makeStories(10), { config })
+    const cells = new Set(Array.from(result.placements.values(), hex => `${hex.q},${hex.r}`))
+
+    expect(result.binned).toBe(false)
+    expect(cells.size).toBe(10)
+  })
+})
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest'
+
+import { createFootprintScale, footprintCellCount, footprintFits } from '../footprints'
+import { computeHivePlacement } from '../placement'
+import { getHexesInRange } from '../../utils/hex'
+import { createSeededRandom } from '../../utils/random'
+
+describe('createFootprintScale', () => {
+  it('gives the lightest story one cell and the heaviest the largest footprint', () => {
+    const radius = createFootprintScale([1, 10, 100], 2)
+    expect(radius(1)).toBe(0)
+    expect(radius(100)).toBe(2)
+    // A third of the weight range covers about a third of the extra area: 7 of 19 cells
+    expect(radius(34)).toBe(1)
+    expect(radius(undefined)).toBe(0)
+    expect(radius(1000)).toBe(2)
+  })
+
+  it('keeps every story to one cell when weights do not differ', () => {
+    expect(createFootprintScale([5, 5, 5])(5)).toBe(0)
+    expect(createFootprintScale([undefined, undefined])(undefined)).toBe(0)
+  })
+})
+
+describe('footprintFits', () => {
+  it('needs every cell of the rings to be free', () => {
+    expect(footprintCellCount(1)).toBe(7)
+    expect(footprintFits({ q: 0, r: 0 }, 1, new Set(['1,-1']))).toBe(false)
+    expect(footprintFits({ q: 0, r: 0 }, 1, new Set(['2,0']))).toBe(true)
+  })
+})
+
+describe('weighted placement', () => {
+  const random = createSeededRandom(5)
+  const stories = Array.from({ length: 30 }, (_, index) => ({
+    id: `story-${index}`,
+    cluster_id: index % 2 === 0 ? 'theme-a' : 'theme-b',
+    embedding: Array.from({ length: 8 }, () => (index % 2) * 5 + random()),
+    weight: index < 3 ? 100 : 1,
+  }))
+
+  it.each(['semantic', 'territories'] as const)(
+    'reserves whole footprints in %s layouts',
+    async layoutMode => {
+      const result = await computeHivePlacement(stories, {
+        config: { seed: 42, umap: { nEpochs: 50 }, layoutMode, assignment: 'optimal' },
+      })
+
+      expect(Array.from(result.footprints ?? [])).toEqual([
+        ['story-0', 2],
+        ['story-1', 2],
+        ['story-2', 2],
+      ])
+
+      // No cell is covered twice
+      const covered = new Set<string>()
+      let cellCount = 0
+      result.placements.forEach((hex, id) => {
+        getHexesInRange(hex, result.footprints?.get(id) ?? 0).forEach(cell => {
+          covered.add(`${cell.q},${cell.r}`)
+          cellCount++
+        })
+      })
+      expect(cellCount).toBe(3 * 19 + 27)
+      expect(covered.size).toBe(cellCount)
+    },
+  )
+})
@@ -0,0 +1,243 @@
+import { describe, expect, it } from 'vitest'
+
+import { computeHivePlacement, createHiveLayout } from '../placement'
+import { isAbortError } from '../../utils/abort'
+import { getHexNeighbors, getHexesInRange } from '../../utils/hex'
+import { createSeededRandom } from '../../utils/random'
+
+// Two well-separated clusters of 8-dimensional embeddings
+function makeStories(count: number, seed = 7) {
+  const random = createSeededRandom(seed)
+  return Array.from({ length: count }, (_, index) => {
+    const offset = index % 2 === 0 ? 0 : 5
+    return {
+      id: `story-${index}`,
+      cluster_id: index % 2 === 0 ? 'theme-a' : 'theme-b',
+      embedding: Array.from({ length: 8 }, () => offset + random()),
+    }
+  })
+}
+
+const config = { seed: 42, umap: { nEpochs: 50 } }
+
+const cellKeys = (placements: Map<string, { q: number; r: number }>) =>
+  new Set(Array.from(placements.values(), hex => `${hex.q},${hex.r}`))
+
+describe('computeHivePlacement', () => {
+  it('places every story on its own hex', async () => {
+    const stories = makeStories(24)
+    const result = await computeHivePlacement(stories, { config })
+
+    expect(result.placements.size).toBe(stories.length)
+    expect(cellKeys(result.placements).size).toBe(stories.length)
+    expect(result.umapCoords).toHaveLength(stories.length)
+    expect(result.displacements?.size).toBe(stories.length)
+  })
+
+  it('produces identical layouts for the same seed', async () => {
+    const stories = makeStories(24)
+    const first = await computeHivePlacement(stories, { config })
+    const second = await computeHivePlacement(stories, { config })
+
+    expect(Array.from(second.placements)).toEqual(Array.from(first.placements))
+  })
+
+  it('accepts Float32Array embeddings', async () => {
+    const stories = makeStories(24)
+    const typed = stories.map(story => ({ ...story, embedding: new Float32Array(story.embedding) }))
+    const result = await computeHivePlacement(typed, { config })
+
+    expect(result.placements.size).toBe(stories.length)
+  })
+
+  it('places a single story at the center without running UMAP', async () => {
+    const result = await computeHivePlacement(makeStories(1))
+    expect(Array.from(result.placements)).toEqual([['story-0', { q: 0, r: 0 }]])
+  })
+
+  it('keeps a single story inside a shape that excludes the center', async () => {
+    // A "C" whose notch covers the middle of the canvas
+    const notched = {
+      polygon: [
+        [0, 0],
+        [10, 0],
+        [10, 2],
+        [2, 2],
+        [2, 8],
+        [10, 8],
+        [10, 10],
+        [0, 10],
+      ] as Array<[number, number]>,
+    }
+    const result = await computeHivePlacement(makeStories(1), { config: { shape: notched } })
+    expect(result.placements.get('story-0')).not.toEqual({ q: 0, r: 0 })
+  })
+
+  it('reports progress through every phase', async () => {
+    const phases = new Set<string>()
+    await computeHivePlacement(makeStories(12), {
+      config,
+      onProgress: ({ phase }) => phases.add(phase),
+    })
+
+    expect(Array.from(phases)).toEqual(['knn', 'optimize', 'placement'])
+  })
+
+  it('rejects with an AbortError when aborted', async () => {
+    const controller = new AbortController()
+    controller.abort()
+
+    const error = await computeHivePlacement(makeStories(12), {
+      config,
+      signal: controller.signal,
+    }).catch((err: unknown) => err)
+    expect(isAbortError(error)).toBe(true)
+  })
+
+  // Aborted once territories start to be claimed, or once greedy placement is done and
+  // only the optimal reassignment is left
+  it.each([
+    ['territories', 'assignment', 0],
+    ['semantic', 'optimal reassignment', 100],
+  ] as const)('stops %s placement when aborted during %s', async (layoutMode, _, percent) => {
+    const controller = new AbortController()
+
+    const error = await computeHivePlacement(makeStories(24), {
+      config: { ...config, layoutMode, assignment: 'optimal' },
+      signal: controller.signal,
+      onProgress: progress => {
+        if (progress.phase === 'placement' && progress.percent >= percent) controller.abort()
+      },
+    }).catch((err: unknown) => err)
+
+    expect(isAbortError(error)).toBe(true)
+  })
+})
+
+describe('createHiveLayout', () => {
+  it('adds stories around existing hexes without moving them', async () => {
+    const stories = makeStories(30)
+    const layout = await createHiveLayout(stories.slice(0, 24), { config })
+    const before = layout.result
+
+    const after = layout.addStories(stories)
+
+    expect(after.placements.size).toBe(30)
+    expect(cellKeys(after.placements).size).toBe(30)
+    before.placements.forEach((hex, id) => expect(after.placements.get(id)).toEqual(hex))
+    // Earlier results are snapshots and are not mutated
+    expect(before.placements.size).toBe(24)
+  })
+
+  it('aligns a re-layout to the reference coordinates', async () => {
+    const stories = makeStories(24)
+    const first = await computeHivePlacement(stories, { config })
+    // The previous layout, as if UMAP had produced it mirrored
+    const reference = first.umapCoords!.map(({ id, x, y }) => ({ id, x: -x, y }))
+
+    const aligned = await computeHivePlacement(stories, { config, reference })
+    aligned.umapCoords!.forEach(({ x, y }, index) => {
+      expect(x).toBeCloseTo(reference[index].x, 6)
+      expect(y).toBeCloseTo(reference[index].y, 6)
+    })
+
+    const unaligned = await computeHivePlacement(stories, {
+      config: { ...config, alignment: false },
+      reference,
+    })
+    expect(unaligned.umapCoords).toEqual(first.umapCoords)
+  })
+})
+
+describe('layout modes', () => {
+  // Hexes of each theme, by cluster ID
+  const hexesByTheme = (
+    stories: Array<{ id: string; cluster_id: string }>,
+    placements: Map<string, { q: number; r: number }>,
+  ) => {
+    const themes = new Map<string, Array<{ q: number; r: number }>>()
+    stories.forEach(({ id, cluster_id }) => {
+      themes.set(cluster_id, [...(themes.get(cluster_id) ?? []), placements.get(id)!])
+    })
+    return themes
+  }
+
+  // Hexes reachable from the first one through neighbors within the same set
+  const connectedCount = (hexes: Array<{ q: number; r: number }>) => {
+    const cells = new Set(hexes.map(hex => `${hex.q},${hex.r}`))
+    const reached = new Set([`${hexes[0].q},${hexes[0].r}`])
+    const queue = [hexes[0]]
+    while (queue.length > 0) {
+      getHexNeighbors(queue.pop()!).forEach(neighbor => {
+        const key = `${neighbor.q},${neighbor.r}`
+        if (cells.has(key) && !reached.has(key)) {
+          reached.add(key)
+          queue.push(neighbor)
+        }
+      })
+    }
+    return reached.size
+  }
+
+  it('gives each theme one contiguous territory', async () => {
+    const stories = makeStories(40)
+    const result = await computeHivePlacement(stories, {
+      config: { ...config, layoutMode: 'territories' },
+    })
+
+    expect(cellKeys(result.placements).size).toBe(stories.length)
+    hexesByTheme(stories, result.placements).forEach(hexes => {
+      expect(connectedCount(hexes)).toBe(hexes.length)
+    })
+  })
+
+  it.each(['territories', 'hybrid'] as const)(
+    'places every story when footprints and a shape are combined in %s layouts',
+    async layoutMode => {
+      const stories = makeStories(40).map((story, index) => ({
+        ...story,
+        weight: index < 4 ? 100 : 1,
+      }))
+      const result = await computeHivePlacement(stories, {
+        config: { ...config, layoutMode, shape: 'circle', maxFootprintRadius: 2 },
+      })
+
+      expect(result.placements.size).toBe(stories.length)
+      const covered = new Set<string>()
+      let cellCount = 0
+      stories.forEach(({ id }) => {
+        const hex = result.placements.get(id)
+        expect(hex).toBeDefined()
+        getHexesInRange(hex!, result.footprints?.get(id) ?? 0).forEach(cell => {
+          covered.add(`${cell.q},${cell.r}`)
+          cellCount++
+        })
+      })
+      expect(covered.size).toBe(cellCount)
+    },
+  )
+
+  it('draws themes closer together in hybrid than in semantic layouts', async () => {
+    const stories = makeStories(40)
+    // Mean hex distance of each story from its theme's centroid
+    const spread = (placements: Map<string, { q: number; r: number }>) => {
+      let total = 0
+      hexesByTheme(stories, placements).forEach(hexes => {
+        const q = hexes.reduce((sum, hex) => sum + hex.q, 0) / hexes.length
+        const r = hexes.reduce((sum, hex) => sum + hex.r, 0) / hexes.length
+        hexes.forEach(hex => {
+          total += (Math.abs(hex.q - q) + Math.abs(hex.r - r) + Math.abs(hex.q + hex.r - q - r)) / 2
+        })
+      })
+      return total / stories.length
+    }
+
+    const semantic = await computeHivePlacement(stories, { config })
+    const hybrid = await computeHivePlacement(stories, {
+      config: { ...config, layoutMode: 'hybrid' },
+    })
+
+    expect(cellKeys(hybrid.placements).size).toBe(stories.length)
+    expect(spread(hybrid.placements)).toBeLessThan(spread(semantic.placements))
+  })
+})
@@ -0,0 +1,167 @@
+import { describe, expect, it } from 'vitest'
+
+import {
+  getProjectionAlgorithm,
+  interpolateFromNeighbors,
+  type ProjectionContext,
+} from '../projection'
+import { computeHivePlacement, createHiveLayout } from '../placement'
+import { createSeededRandom } from '../../utils/random'
+import type { ProjectionMethod } from '../../types'
+
+const baseConfig = { canvasWidth: 900, canvasHeight: 600, hexRadius: 14, margin: 20 }
+
+const context = (seed = 1): ProjectionContext => ({
+  random: createSeededRandom(seed),
+  checkpoint: async () => {},
+  onProgress: () => {},
+})
+
+// Two tight clusters far apart in 6 dimensions
+function clusteredData(count: number) {
+  const random = createSeededRandom(3)
+  return Array.from({ length: count }, (_, index) =>
+    Array.from({ length: 6 }, () => (index % 2 === 0 ? 0 : 10) + random() * 0.5),
+  )
+}
+
+const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length
+
+// Distance between the 2D centroids of the even and odd rows, relative to the mean spread
+function separation(coords: number[][]) {
+  const groups = [0, 1].map(parity => coords.filter((_, index) => index % 2 === parity))
+  const centers = groups.map(group => [mean(group.map(p => p[0])), mean(group.map(p => p[1]))])
+  const spread = mean(
+    groups.flatMap((group, g) =>
+      group.map(p => Math.hypot(p[0] - centers[g][0], p[1] - centers[g][1])),
+    ),
+  )
+  return Math.hypot(centers[0][0] - centers[1][0], centers[0][1] - centers[1][1]) / spread
+}
+
+describe('PCA projection', () => {
+  it('projects onto the direction of largest variance', async () => {
+    const data = [-2, -1, 0, 1, 2].map(t => [3 * t, t, 0.01 * t * t])
+    const fitted = await getProjectionAlgorithm({ ...baseConfig, projection: 'pca' }).fit(
+      data,
+      context(),
+    )
+
+    const xs = fitted.coords.map(([x]) => x)
+    expect(xs[4] - xs[0]).toBeCloseTo(4 * Math.sqrt(10), 3)
+    expect(fitted.params.explainedVarianceRatio).toBeGreaterThan(0.99)
+  })
+
+  it('gives the same coordinates regardless of the random start', async () => {
+    const data = clusteredData(20)
+    const algorithm = getProjectionAlgorithm({ ...baseConfig, projection: 'pca' })
+    const first = await algorithm.fit(data, context(1))
+    const second = await algorithm.fit(data, context(99))
+
+    first.coords.forEach(([x], index) => expect(second.coords[index][0]).toBeCloseTo(x, 6))
+  })
+})
+
+describe('t-SNE projection', () => {
+  it('separates distinct clusters', async () => {
+    const fitted = await getProjectionAlgorithm({
+      ...baseConfig,
+      projection: 'tsne',
+      tsne: { nIterations: 300 },
+    }).fit(clusteredData(20), context())
+
+    expect(fitted.coords).toHaveLength(20)
+    expect(separation(fitted.coords)).toBeGreaterThan(3)
+    expect(fitted.params).toMatchObject({ perplexity: 19 / 3, nIterations: 300 })
+  })
+})
+
+describe('interpolateFromNeighbors', () => {
+  it('reuses the coordinates of an identical fitted row', () => {
+    const fitted = [
+      [0, 0],
+      [1, 1],
+    ]
+    expect(
+      interpolateFromNeighbors(
+        fitted,
+        [
+          [5, 5],
+          [9, 9],
+        ],
+        [[1, 1]],
+      ),
+    ).toEqual([[9, 9]])
+  })
+
+  it('weights neighbors by inverse distance', () => {
+    const [[x, y]] = interpolateFromNeighbors(
+      [[0], [4]],
+      [
+        [0, 0],
+        [8, 4],
+      ],
+      [[1]],
+    )
+    expect(x).toBeCloseTo(2)
+    expect(y).toBeCloseTo(1)
+  })
+})
+
+describe('engine projections', () => {
+  const stories = clusteredData(16).map((embedding, index) => ({
+    id: `story-${index}`,
+    embedding,
+  }))
+
+  it.each<[ProjectionMethod, Record<string, unknown>]>([
+    ['pca', {}],
+    ['tsne', { tsne: { nIterations: 200 } }],
+  ])('records the %s projection in the result', async (projection, extra) => {
+    const result = await computeHivePlacement(stories, {
+      config: { seed: 1, projection, ...extra },
+    })
+
+    expect(result.placements.size).toBe(stories.length)
+    expect(result.projection?.algorithm).toBe(projection)
+  })
+
+  it('records UMAP parameters by default', async () => {
+    const result = await computeHivePlacement(stories, {
+      config: { seed: 1, umap: { nEpochs: 30, metric: 'cosine' } },
+    })
+
+    expect(result.projection).toEqual({
+      algorithm: 'umap',
+      params: { nNeighbors: 4, minDist: 0.1, spread: 1, nEpochs: 30, metric: 'cosine' },
+    })
+  })
+
+  it('hands a custom metric the embeddings without copying them', async () => {
+    const rows = new Set<ArrayLike<number>>()
+    const metric = (a: ArrayLike<number>, b: ArrayLike<number>) => {
+      rows.add(a).add(b)
+      let sum = 0
+      for (let i = 0; i < a.length; i++) sum += Math.abs(a[i] - b[i])
+      return sum
+    }
+    const packed = stories.map(story => ({
+      ...story,
+      embedding: Float32Array.from(story.embedding),
+    }))
+
+    await computeHivePlacement(packed, { config: { seed: 1, umap: { nEpochs: 30, metric } } })
+
+    const embeddings = new Set(packed.map(story => story.embedding))
+    expect(rows.size).toBeGreaterThan(0)
+    rows.forEach(row => expect(embeddings.has(row as Float32Array)).toBe(true))
+  })
+
+  it('places added stories for algorithms without a transform', async () => {
+    const layout = await createHiveLayout(stories.slice(0, 12), {
+      config: { seed: 1, projection: 'tsne', tsne: { nIterations: 200 } },
+    })
+
+    expect(layout.addStories(stories).placements.size).toBe(stories.length)
+  })
+})
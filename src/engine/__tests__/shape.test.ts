@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest'
+
+import { createShapeMask, parseSvgPath } from '../shape'
+import { computeHivePlacement, DEFAULT_PLACEMENT_CONFIG } from '../placement'
+import { hexToPixel } from '../../utils/hex'
+import { createSeededRandom } from '../../utils/random'
+
+const config = { ...DEFAULT_PLACEMENT_CONFIG, canvasWidth: 400, canvasHeight: 200, margin: 0 }
+
+describe('parseSvgPath', () => {
+  it('reads absolute and relative line commands as closed rings', () => {
+    expect(parseSvgPath('M0 0 H10 v10 l-10 0 Z m20 0 h5 v5 z')).toEqual([
+      [
+        [0, 0],
+        [10, 0],
+        [10, 10],
+        [0, 10],
+      ],
+      [
+        [20, 0],
+        [25, 0],
+        [25, 5],
+      ],
+    ])
+  })
+
+  it('flattens curves and arcs onto their end points', () => {
+    const [curve, arc] = parseSvgPath('M0 0 C0 10 10 10 10 0 Z M10 0 A5 5 0 0 1 0 0 Z')
+    expect(curve).toContainEqual([10, 0])
+    expect(Math.max(...curve.map(([, y]) => y))).toBeCloseTo(7.5)
+    // With the sweep flag set, the arc runs clockwise on screen: below its end points
+    expect(arc[arc.length - 1]).toEqual([0, 0])
+    expect(Math.max(...arc.map(([, y]) => y))).toBeCloseTo(5)
+  })
+
+  it('rejects malformed path data', () => {
+    expect(() => parseSvgPath('10 10 L 20 20')).toThrow('Invalid SVG path data')
+  })
+})
+
+describe('createShapeMask', () => {
+  it('fits a circle to the shorter side of the canvas', () => {
+    const mask = createShapeMask('circle', config, 1)
+    const { hexRadius } = config
+
+    expect(mask.containsHex({ q: 0, r: 0 })).toBe(true)
+    // 150px right of center is inside the canvas but outside a 100px circle
+    expect(mask.containsHex({ q: Math.round(150 / (1.5 * hexRadius)), r: 0 })).toBe(false)
+    const edge = mask.fromUnitSquare(1, 0.5)
+    expect(Math.hypot(edge.x, edge.y)).toBeCloseTo(100)
+  })
+
+  it('grows until every story has a cell', () => {
+    const mask = createShapeMask('hexagon', { ...config, canvasWidth: 40, canvasHeight: 40 }, 200)
+    let count = 0
+    for (let q = -40; q <= 40; q++) {
+      for (let r = -40; r <= 40; r++) {
+        if (mask.containsHex({ q, r })) count++
+      }
+    }
+    expect(count).toBeGreaterThanOrEqual(200)
+  })
+})
+
+describe('shaped placement', () => {
+  it('keeps every story inside the mask', async () => {
+    const random = createSeededRandom(3)
+    const stories = Array.from({ length: 40 }, (_, index) => ({
+      id: `story-${index}`,
+      embedding: Array.from({ length: 8 }, () => random()),
+    }))
+    const shapeConfig = { ...config, seed: 42, umap: { nEpochs: 50 }, shape: 'circle' as const }
+    const result = await computeHivePlacement(stories, { config: shapeConfig })
+    const mask = createShapeMask('circle', shapeConfig, stories.length)
+
+    expect(result.placements.size).toBe(stories.length)
+    result.placements.forEach(hex => {
+      expect(mask.containsHex(hex)).toBe(true)
+      const { x, y } = hexToPixel(hex, config.hexRadius)
+      expect(Math.hypot(x, y)).toBeLessThanOrEqual(100)
+    })
+  })
+})
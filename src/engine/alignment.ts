@@ -0,0 +1,91 @@
+// Procrustes alignment: fit a rotation, reflection, uniform scale and translation that
+// maps a new projection onto a previous one, so re-layouts keep their orientation
+
+// Fewer shared stories than this leave the orientation too loosely determined
+const MIN_SHARED_POINTS = 3
+
+export interface ProjectedPoint {
+  id: string
+  x: number
+  y: number
+}
+
+export type PointTransform = (x: number, y: number) => [number, number]
+
+/**
+ * Least-squares similarity transform from `source` onto `target` over matching pairs.
+ * Points are treated as complex numbers: the best fit is w ≈ a·z (rotation) or
+ * w ≈ a·z̄ (reflection) after centering, and whichever leaves the smaller residual wins.
+ * Returns null when the pairs are too few or collapse to a single point.
+ */
+export function fitSimilarityTransform(
+  source: Array<[number, number]>,
+  target: Array<[number, number]>,
+): PointTransform | null {
+  const n = source.length
+  if (n < MIN_SHARED_POINTS || target.length !== n) return null
+
+  let sourceX = 0
+  let sourceY = 0
+  let targetX = 0
+  let targetY = 0
+  for (let i = 0; i < n; i++) {
+    sourceX += source[i][0] / n
+    sourceY += source[i][1] / n
+    targetX += target[i][0] / n
+    targetY += target[i][1] / n
+  }
+
+  // Σ conj(z)·w for the rotation fit and Σ z·w for the reflection fit
+  let rotationRe = 0
+  let rotationIm = 0
+  let reflectionRe = 0
+  let reflectionIm = 0
+  let sourceNorm = 0
+  for (let i = 0; i < n; i++) {
+    const zx = source[i][0] - sourceX
+    const zy = source[i][1] - sourceY
+    const wx = target[i][0] - targetX
+    const wy = target[i][1] - targetY
+    rotationRe += zx * wx + zy * wy
+    rotationIm += zx * wy - zy * wx
+    reflectionRe += zx * wx - zy * wy
+    reflectionIm += zx * wy + zy * wx
+    sourceNorm += zx * zx + zy * zy
+  }
+  if (sourceNorm === 0) return null
+
+  // The residual is Σ|w|² - |Σ…|² / Σ|z|², so the larger sum fits better
+  const reflect = Math.hypot(reflectionRe, reflectionIm) > Math.hypot(rotationRe, rotationIm)
+  const re = (reflect ? reflectionRe : rotationRe) / sourceNorm
+  const im = (reflect ? reflectionIm : rotationIm) / sourceNorm
+
+  return (x, y) => {
+    const zx = x - sourceX
+    const zy = reflect ? -(y - sourceY) : y - sourceY
+    return [re * zx - im * zy + targetX, re * zy + im * zx + targetY]
+  }
+}
+
+/**
+ * Fit the transform that aligns `coords` (one pair per ID in `ids`) to the reference
+ * points sharing those IDs. Returns null when too few stories are shared.
+ */
+export function alignToReference(
+  ids: string[],
+  coords: number[][],
+  reference: ProjectedPoint[],
+): PointTransform | null {
+  const referenceById = new Map(reference.map(point => [point.id, point]))
+  const source: Array<[number, number]> = []
+  const target: Array<[number, number]> = []
+
+  ids.forEach((id, index) => {
+    const previous = referenceById.get(id)
+    if (!previous) return
+    source.push([coords[index][0], coords[index][1]])
+    target.push([previous.x, previous.y])
+  })
+
+  return fitSimilarityTransform(source, target)
+}
@@ -0,0 +1,45 @@
+// Density binning: once stories outnumber the hex budget, nearby stories share a hex
+
+import type { HexCoordinate, PixelCoordinate } from '../types'
+
+// Halvings of the scale range searched for the best fit
+const SEARCH_STEPS = 24
+
+const countCells = (
+  targets: PixelCoordinate[],
+  scale: number,
+  toHex: (pixel: PixelCoordinate) => HexCoordinate,
+) =>
+  new Set(
+    targets.map(({ x, y }) => {
+      const hex = toHex({ x: x * scale, y: y * scale })
+      return `${hex.q},${hex.r}`
+    }),
+  ).size
+
+/**
+ * Factor by which target positions are pulled toward the center so that they fall
+ * into at most `maxHexes` distinct hexes. Shrinking the layout merges the densest
+ * areas first, and the hive stays one compact shape. Returns 1 when everything
+ * already fits.
+ */
+export function fitBinScale(
+  targets: PixelCoordinate[],
+  maxHexes: number,
+  toHex: (pixel: PixelCoordinate) => HexCoordinate,
+): number {
+  if (countCells(targets, 1, toHex) <= maxHexes) return 1
+
+  // The cell count grows (almost) monotonically with the scale
+  let low = 0
+  let high = 1
+  for (let step = 0; step < SEARCH_STEPS; step++) {
+    const middle = (low + high) / 2
+    if (countCells(targets, middle, toHex) <= maxHexes) {
+      low = middle
+    } else {
+      high = middle
+    }
+  }
+  return low
+}
@@ -0,0 +1,57 @@
+// Weighted stories: heavier stories claim "super hexes", a center cell plus whole rings
+// of cells around it, instead of a single cell
+
+import type { HexCoordinate } from '../types'
+import { getHexesInRange } from '../utils/hex'
+
+// Rings around the center cell given to the heaviest story by default
+export const DEFAULT_MAX_FOOTPRINT_RADIUS = 2
+
+// Cells covered by a footprint: the center plus `radius` rings
+export function footprintCellCount(radius: number): number {
+  return 3 * radius * (radius + 1) + 1
+}
+
+/**
+ * Map weights to footprint radii. The lightest story gets a single cell and the
+ * heaviest a footprint of `maxRadius` rings; the area in between grows linearly with
+ * weight. Missing or invalid weights count as the lightest. Weights outside the range
+ * seen here (stories added later) are clamped to it.
+ */
+export function createFootprintScale(
+  weights: Array<number | undefined>,
+  maxRadius: number = DEFAULT_MAX_FOOTPRINT_RADIUS,
+): (weight: number | undefined) => number {
+  const valid = weights.filter((weight): weight is number => Number.isFinite(weight))
+  if (valid.length === 0 || maxRadius <= 0) return () => 0
+
+  const min = Math.min(...valid)
+  const max = Math.max(...valid)
+  if (max === min) return () => 0
+
+  const maxCells = footprintCellCount(Math.floor(maxRadius))
+  return weight => {
+    if (weight === undefined || !Number.isFinite(weight)) return 0
+    const fraction = Math.max(0, Math.min(1, (weight - min) / (max - min)))
+    const cells = 1 + fraction * (maxCells - 1)
+    // Inverse of footprintCellCount, rounded to the nearest whole ring
+    return Math.round((-3 + Math.sqrt(9 + 12 * (cells - 1))) / 6)
+  }
+}
+
+// Cells covered by a footprint centered on `center`
+export function footprintCells(center: HexCoordinate, radius: number): HexCoordinate[] {
+  return radius > 0 ? getHexesInRange(center, radius) : [center]
+}
+
+// True when every cell of the footprint is free (and allowed, when a predicate is given)
+export function footprintFits(
+  center: HexCoordinate,
+  radius: number,
+  occupied: Set<string>,
+  isAllowed?: (hex: HexCoordinate) => boolean,
+): boolean {
+  return footprintCells(center, radius).every(
+    hex => !occupied.has(`${hex.q},${hex.r}`) && (!isAllowed || isAllowed(hex)),
+  )
+}
@@ -0,0 +1,44 @@
+// Entry point for using the placement engine without React, e.g. from Node scripts
+
+export {
+  computeHivePlacement,
+  createHiveLayout,
+  DEFAULT_PLACEMENT_CONFIG,
+  type HiveLayout,
+  type HivePlacementOptions,
+  type PlacementStory,
+} from './placement'
+export type { ProjectedPoint } from './alignment'
+export { isAbortError } from '../utils/abort'
+export {
+  axialToCube,
+  axialToOffset,
+  cubeToAxial,
+  hexCorners,
+  hexToPixel,
+  offsetToAxial,
+  pixelToHex,
+} from '../utils/hex'
+export type {
+  AssignmentStrategy,
+  CubeCoordinate,
+  DistanceFn,
+  Embedding,
+  HexCoordinate,
+  HexOrientation,
+  HiveShape,
+  LayoutMode,
+  NormalizationOptions,
+  OffsetCoordinate,
+  OffsetParity,
+  PlacementConfig,
+  PlacementPhase,
+  PlacementProgress,
+  PlacementResult,
+  ProjectionInfo,
+  ProjectionMethod,
+  TSNEOptions,
+  UMAPMetric,
+  UMAPNormalization,
+  UMAPOptions,
+} from '../types'
@@ -0,0 +1,705 @@
+// Hive placement engine: 2D projection (UMAP, PCA or t-SNE) followed by hex assignment.
+// Framework-agnostic, so the web worker, the main thread and Node scripts all
+// produce identical layouts from the same inputs.
+
+import type {
+  HexCoordinate,
+  HexOrientation,
+  PixelCoordinate,
+  PlacementConfig,
+  PlacementPhase,
+  PlacementProgress,
+  PlacementResult,
+  StoryWithEmbedding,
+  UMAPNormalization,
+} from '../types'
+import { createAbortError } from '../utils/abort'
+import { computeNormalization } from '../utils/normalization'
+import { resolveRandom } from '../utils/random'
+import { solveAssignment, type AssignmentEdge } from '../utils/assignment'
+import { getProjectionAlgorithm, interpolateFromNeighbors } from './projection'
+import { alignToReference, type ProjectedPoint } from './alignment'
+import { createShapeMask, type ShapeMask } from './shape'
+import { fitBinScale } from './binning'
+import {
+  createFootprintScale,
+  footprintCellCount,
+  footprintCells,
+  footprintFits,
+} from './footprints'
+import {
+  findAvailableHex,
+  generateClusterHexes,
+  getHexesInRange,
+  hexToPixel,
+  pixelToHex,
+} from '../utils/hex'
+
+export const DEFAULT_PLACEMENT_CONFIG: PlacementConfig = {
+  canvasWidth: 900,
+  canvasHeight: 600,
+  hexRadius: 14,
+  margin: 20,
+}
+
+// The parts of a story the engine reads
+export type PlacementStory = Pick<StoryWithEmbedding, 'id' | 'embedding' | 'cluster_id' | 'weight'>
+
+export interface HivePlacementOptions {
+  config?: Partial<PlacementConfig>
+  // Explicit UMAP bounds; computed from the projected coordinates when omitted
+  norm?: UMAPNormalization
+  // Called as each phase advances, at most once per whole percent
+  onProgress?: (progress: PlacementProgress) => void
+  // Checked between optimization steps; aborting rejects with an AbortError
+  signal?: AbortSignal
+  // Coordinates of a previous layout (its `umapCoords`). Unless `config.alignment` is
+  // false, the new projection is rotated, reflected, scaled and moved to match it on
+  // the stories both share, so a re-layout keeps the hive's orientation.
+  reference?: ProjectedPoint[]
+}
+
+// A computed layout whose fitted projection can place further stories
+export interface HiveLayout {
+  result: PlacementResult
+  /**
+   * Project stories into the fitted model and place them around the existing hexes,
+   * which never move. Stories already in the layout are ignored. Returns every placement.
+   */
+  addStories: (stories: PlacementStory[]) => PlacementResult
+}
+
+// Yield to the event loop so pending aborts and messages are delivered
+const yieldToEventLoop = () => new Promise<void>(resolve => setTimeout(resolve, 0))
+
+// Minimum time between yields while optimizing, in milliseconds
+const YIELD_INTERVAL_MS = 50
+
+function throwIfAborted(signal?: AbortSignal) {
+  if (signal?.aborted) {
+    throw createAbortError()
+  }
+}
+
+// Wrap onProgress so updates that don't change the rounded percent are skipped
+function createProgressReporter(onProgress?: (progress: PlacementProgress) => void) {
+  let lastKey = ''
+  return (phase: PlacementPhase, fraction: number) => {
+    if (!onProgress) return
+    const percent = Math.round(Math.max(0, Math.min(1, fraction)) * 100)
+    const key = `${phase}:${percent}`
+    if (key === lastKey) return
+    lastKey = key
+    onProgress({ phase, percent })
+  }
+}
+
+function normalizeUMAP(x: number, y: number, norm: UMAPNormalization): { nx: number; ny: number } {
+  const nx = (x - norm.min_x) / (norm.max_x - norm.min_x)
+  const ny = (y - norm.min_y) / (norm.max_y - norm.min_y)
+
+  return {
+    nx: Math.max(0, Math.min(1, nx)),
+    ny: Math.max(0, Math.min(1, ny)),
+  }
+}
+
+// Ideal position for a UMAP coordinate, in pixels relative to the canvas center
+function projectToCanvas(
+  umapX: number,
+  umapY: number,
+  norm: UMAPNormalization,
+  config: PlacementConfig,
+  mask: ShapeMask | null,
+): PixelCoordinate {
+  const { nx, ny } = normalizeUMAP(umapX, umapY, norm)
+  if (mask) return mask.fromUnitSquare(nx, ny)
+
+  const { canvasWidth, canvasHeight, margin } = config
+
+  const px = margin + nx * (canvasWidth - 2 * margin)
+  const py = margin + (1 - ny) * (canvasHeight - 2 * margin)
+
+  return { x: px - canvasWidth / 2, y: py - canvasHeight / 2 }
+}
+
+const occupy = (occupied: Set<string>, center: HexCoordinate, radius: number) =>
+  footprintCells(center, radius).forEach(hex => occupied.add(`${hex.q},${hex.r}`))
+
+// Center cell nearest the target whose whole footprint (`radius` rings) is free
+function placeStory(
+  target: PixelCoordinate,
+  occupiedCells: Set<string>,
+  config: PlacementConfig,
+  mask: ShapeMask | null,
+  radius = 0,
+): HexCoordinate {
+  const idealHex = pixelToHex(target, config.hexRadius, config.orientation)
+  const fits = (isAllowed?: (hex: HexCoordinate) => boolean) => (center: HexCoordinate) =>
+    footprintFits(center, radius, occupiedCells, isAllowed)
+
+  // A full mask (stories added after the layout was fitted) overflows onto nearby cells
+  const availableHex =
+    (mask && findAvailableHex(idealHex, occupiedCells, 200, fits(mask.containsHex))) ||
+    findAvailableHex(idealHex, occupiedCells, 200, fits())
+
+  if (!availableHex) {
+    return idealHex
+  }
+
+  return availableHex
+}
+
+// Hex distance around each story's ideal cell searched by optimal assignment
+const ASSIGNMENT_CANDIDATE_RADIUS = 3
+
+function displacement(
+  target: PixelCoordinate,
+  hex: HexCoordinate,
+  hexRadius: number,
+  orientation?: HexOrientation,
+): number {
+  const center = hexToPixel(hex, hexRadius, orientation)
+  return Math.hypot(target.x - center.x, target.y - center.y)
+}
+
+/**
+ * Reassign stories to minimize total displacement. Candidates are the cells near
+ * each story's ideal hex plus its greedy cell, so the greedy layout is always a
+ * feasible fallback and the result is never worse than it.
+ */
+async function assignOptimally(
+  targets: Array<{ id: string; target: PixelCoordinate }>,
+  greedy: Map<string, HexCoordinate>,
+  hexRadius: number,
+  orientation: HexOrientation | undefined,
+  checkpoint: () => Promise<void>,
+  isAllowed?: (hex: HexCoordinate) => boolean,
+): Promise<Map<string, HexCoordinate>> {
+  const cellIndex = new Map<string, number>()
+  const cells: HexCoordinate[] = []
+  const indexOf = (hex: HexCoordinate) => {
+    const key = `${hex.q},${hex.r}`
+    let index = cellIndex.get(key)
+    if (index === undefined) {
+      index = cells.length
+      cellIndex.set(key, index)
+      cells.push(hex)
+    }
+    return index
+  }
+
+  const rows: AssignmentEdge[][] = targets.map(({ id, target }) => {
+    const candidates = getHexesInRange(
+      pixelToHex(target, hexRadius, orientation),
+      ASSIGNMENT_CANDIDATE_RADIUS,
+    ).filter(hex => !isAllowed || isAllowed(hex))
+    const greedyCell = greedy.get(id)
+    if (greedyCell) candidates.push(greedyCell)
+
+    const edges = new Map<number, number>()
+    candidates.forEach(hex => {
+      edges.set(indexOf(hex), displacement(target, hex, hexRadius, orientation))
+    })
+    return Array.from(edges, ([col, cost]) => ({ col, cost }))
+  })
+
+  const solution = await solveAssignment(rows, cells.length, checkpoint)
+  if (!solution) return greedy
+
+  return new Map(targets.map(({ id }, row) => [id, cells[solution[row]]]))
+}
+
+// Ideal canvas position of a story along with its theme
+interface PlacementTarget {
+  id: string
+  clusterId?: string
+  target: PixelCoordinate
+}
+
+// Fraction of the way hybrid layouts move each story toward its theme centroid
+const HYBRID_THEME_PULL = 0.5
+
+function groupByTheme(targets: PlacementTarget[]): PlacementTarget[][] {
+  const groups = new Map<string | undefined, PlacementTarget[]>()
+  targets.forEach(target => {
+    const group = groups.get(target.clusterId)
+    if (group) {
+      group.push(target)
+    } else {
+      groups.set(target.clusterId, [target])
+    }
+  })
+  return Array.from(groups.values())
+}
+
+function centroidOf(points: PixelCoordinate[]): PixelCoordinate {
+  const sum = points.reduce((acc, point) => ({ x: acc.x + point.x, y: acc.y + point.y }), {
+    x: 0,
+    y: 0,
+  })
+  return { x: sum.x / points.length, y: sum.y / points.length }
+}
+
+// Hybrid mode: keep semantic positions but draw each theme together around its centroid
+function pullTowardThemes(targets: PlacementTarget[]): PlacementTarget[] {
+  const centroids = new Map(
+    groupByTheme(targets).map(group => [
+      group[0].clusterId,
+      centroidOf(group.map(({ target }) => target)),
+    ]),
+  )
+
+  return targets.map(placementTarget => {
+    const { target, clusterId } = placementTarget
+    const centroid = centroids.get(clusterId)!
+    return {
+      ...placementTarget,
+      target: {
+        x: target.x + (centroid.x - target.x) * HYBRID_THEME_PULL,
+        y: target.y + (centroid.y - target.y) * HYBRID_THEME_PULL,
+      },
+    }
+  })
+}
+
+/**
+ * Arrange one theme's stories inside its region. Story positions are scaled about
+ * the theme centroid to the region's spread, then matched to region cells with the
+ * min-cost solver, so similar stories end up next to each other. Pairing stories and
+ * cells by distance from the center keeps the problem feasible.
+ */
+async function arrangeWithinRegion(
+  group: PlacementTarget[],
+  region: HexCoordinate[],
+  hexRadius: number,
+  orientation: HexOrientation | undefined,
+  checkpoint: () => Promise<void>,
+): Promise<Map<string, HexCoordinate>> {
+  const storyCenter = centroidOf(group.map(({ target }) => target))
+  const cellPixels = region.map(hex => hexToPixel(hex, hexRadius, orientation))
+  const regionCenter = centroidOf(cellPixels)
+
+  const spread = (points: PixelCoordinate[], center: PixelCoordinate) =>
+    Math.sqrt(
+      points.reduce((sum, p) => sum + (p.x - center.x) ** 2 + (p.y - center.y) ** 2, 0) /
+        points.length,
+    )
+  const storySpread = spread(
+    group.map(({ target }) => target),
+    storyCenter,
+  )
+  const scale = storySpread > 0 ? spread(cellPixels, regionCenter) / storySpread : 0
+
+  const scaledTargets = group.map(({ target }) => ({
+    x: regionCenter.x + (target.x - storyCenter.x) * scale,
+    y: regionCenter.y + (target.y - storyCenter.y) * scale,
+  }))
+
+  const byDistance = (points: PixelCoordinate[]) =>
+    points
+      .map((point, index) => ({
+        index,
+        d: Math.hypot(point.x - regionCenter.x, point.y - regionCenter.y),
+      }))
+      .sort((a, b) => a.d - b.d)
+      .map(({ index }) => index)
+  const storyOrder = byDistance(scaledTargets)
+  const cellOrder = byDistance(cellPixels)
+  const rankedCell = new Map(storyOrder.map((storyIndex, rank) => [storyIndex, cellOrder[rank]]))
+
+  const cellIndex = new Map(region.map((hex, index) => [`${hex.q},${hex.r}`, index]))
+  const rows: AssignmentEdge[][] = scaledTargets.map((target, storyIndex) => {
+    const candidates = new Set<number>([rankedCell.get(storyIndex)!])
+    const nearest = pixelToHex(target, hexRadius, orientation)
+    getHexesInRange(nearest, ASSIGNMENT_CANDIDATE_RADIUS).forEach(hex => {
+      const index = cellIndex.get(`${hex.q},${hex.r}`)
+      if (index !== undefined) candidates.add(index)
+    })
+    return Array.from(candidates, col => ({
+      col,
+      cost: Math.hypot(target.x - cellPixels[col].x, target.y - cellPixels[col].y),
+    }))
+  })
+
+  const solution = await solveAssignment(rows, region.length, checkpoint)
+  return new Map(
+    group.map(({ id }, storyIndex) => [
+      id,
+      region[solution ? solution[storyIndex] : rankedCell.get(storyIndex)!],
+    ]),
+  )
+}
+
+/**
+ * Territories mode: each theme claims one contiguous region centered on the hex
+ * nearest its UMAP centroid. Larger themes claim their regions first. Weighted
+ * stories take their whole footprint nearest the region's center.
+ */
+async function layoutTerritories(
+  targets: PlacementTarget[],
+  hexRadius: number,
+  orientation: HexOrientation | undefined,
+  isAllowed: ((hex: HexCoordinate) => boolean) | undefined,
+  footprints: Map<string, number>,
+  checkpoint: () => Promise<void>,
+  onProgress: (fraction: number) => void,
+): Promise<Map<string, HexCoordinate>> {
+  const placements = new Map<string, HexCoordinate>()
+  const occupied = new Set<string>()
+  const groups = groupByTheme(targets).sort((a, b) => b.length - a.length)
+  const radiusOf = (id: string) => footprints.get(id) ?? 0
+  const keyOf = (hex: HexCoordinate) => `${hex.q},${hex.r}`
+
+  let placedCount = 0
+  for (const group of groups) {
+    await checkpoint()
+    const centroid = centroidOf(group.map(({ target }) => target))
+    const centerHex = pixelToHex(centroid, hexRadius, orientation)
+    const cellCount = group.reduce((sum, { id }) => sum + footprintCellCount(radiusOf(id)), 0)
+    const region = generateClusterHexes(centerHex, cellCount, occupied, isAllowed)
+    region.forEach(hex => occupied.add(`${hex.q},${hex.r}`))
+
+    // A region boxed in by earlier territories spills over to the nearest free cells
+    while (region.length < cellCount) {
+      const spill =
+        (isAllowed && findAvailableHex(centerHex, occupied, 200, isAllowed)) ||
+        findAvailableHex(centerHex, occupied, 200)
+      if (!spill) break
+      region.push(spill)
+      occupied.add(`${spill.q},${spill.r}`)
+    }
+
+    // Region cells are ordered by distance from the center, so the heaviest stories
+    // land in the middle; a footprint that does not fit inside goes to the nearest free
+    // cells outside
+    const free = new Set(region.map(keyOf))
+    group
+      .filter(({ id }) => radiusOf(id) > 0)
+      .sort((a, b) => radiusOf(b.id) - radiusOf(a.id))
+      .forEach(({ id }) => {
+        const radius = radiusOf(id)
+        const inside = region.find(hex =>
+          footprintCells(hex, radius).every(cell => free.has(keyOf(cell))),
+        )
+        const center =
+          inside ??
+          ((isAllowed &&
+            findAvailableHex(centerHex, occupied, 200, hex =>
+              footprintFits(hex, radius, occupied, isAllowed),
+            )) ||
+            findAvailableHex(centerHex, occupied, 200, hex =>
+              footprintFits(hex, radius, occupied),
+            ) ||
+            centerHex)
+
+        footprintCells(center, radius).forEach(cell => free.delete(keyOf(cell)))
+        occupy(occupied, center, radius)
+        placements.set(id, center)
+      })
+
+    const singles = group.filter(({ id }) => radiusOf(id) === 0)
+    const rest = region.filter(hex => free.has(keyOf(hex)))
+    if (singles.length > 0) {
+      const arranged = await arrangeWithinRegion(
+        singles.slice(0, rest.length),
+        rest,
+        hexRadius,
+        orientation,
+        checkpoint,
+      )
+      arranged.forEach((hex, id) => {
+        placements.set(id, hex)
+        free.delete(keyOf(hex))
+      })
+    }
+    // Stories the region has no cell left for take the free cells nearest their targets
+    singles.slice(rest.length).forEach(({ id, target }) => {
+      const nearest = pixelToHex(target, hexRadius, orientation)
+      const hex =
+        (isAllowed && findAvailableHex(nearest, occupied, 200, isAllowed)) ||
+        findAvailableHex(nearest, occupied, 200) ||
+        nearest
+      occupied.add(keyOf(hex))
+      placements.set(id, hex)
+    })
+    // Cells left over because a footprint spilled outside are free for later themes
+    free.forEach(key => occupied.delete(key))
+
+    placedCount += group.length
+    onProgress(placedCount / targets.length)
+  }
+
+  return placements
+}
+
+// Layouts too small to project: nothing, or a single story at the center (or the cell
+// nearest it inside the shape)
+function trivialLayout(stories: PlacementStory[], config: PlacementConfig): HiveLayout {
+  const placements = new Map<string, HexCoordinate>()
+  if (stories.length === 1) {
+    const center = { q: 0, r: 0 }
+    const mask = config.shape ? createShapeMask(config.shape, config, 1) : null
+    placements.set(
+      stories[0].id,
+      (mask && findAvailableHex(center, new Set(), 200, mask.containsHex)) || center,
+    )
+  }
+
+  return {
+    result: { placements },
+    addStories: () => {
+      throw new Error('No fitted projection available: projecting needs at least 2 stories.')
+    },
+  }
+}
+
+/**
+ * Project the stories' embeddings with `config.projection` and place every story on
+ * the hex grid. The returned layout keeps the fitted projection for `addStories`.
+ */
+export async function createHiveLayout(
+  stories: PlacementStory[],
+  options: HivePlacementOptions = {},
+): Promise<HiveLayout> {
+  const { signal } = options
+  const config: PlacementConfig = { ...DEFAULT_PLACEMENT_CONFIG, ...options.config }
+  const reportProgress = createProgressReporter(options.onProgress)
+
+  throwIfAborted(signal)
+
+  if (stories.length < 2) {
+    return trivialLayout(stories, config)
+  }
+
+  const embeddings = stories.map(s => s.embedding)
+  const algorithm = getProjectionAlgorithm(config)
+
+  // Keeps long loops responsive on the main thread and stops them once aborted
+  let lastYield = Date.now()
+  const checkpoint = async () => {
+    if (Date.now() - lastYield >= YIELD_INTERVAL_MS) {
+      await yieldToEventLoop()
+      lastYield = Date.now()
+    }
+    throwIfAborted(signal)
+  }
+
+  const fitted = await algorithm.fit(embeddings, {
+    random: resolveRandom(config.seed),
+    checkpoint,
+    onProgress: reportProgress,
+  })
+  await checkpoint()
+  const fittedTransform =
+    fitted.transform ?? (rows => interpolateFromNeighbors(embeddings, fitted.coords, rows))
+  const projection = { algorithm: algorithm.name, params: fitted.params }
+
+  const align =
+    options.reference && config.alignment !== false
+      ? alignToReference(
+          stories.map(story => story.id),
+          fitted.coords,
+          options.reference,
+        )
+      : null
+  const alignCoords = (coords: number[][]) => (align ? coords.map(([x, y]) => align(x, y)) : coords)
+
+  const umapCoords = alignCoords(fitted.coords)
+  // Stories added later land in the same aligned space
+  const transform = (rows: ArrayLike<number>[]) => alignCoords(fittedTransform(rows))
+
+  const storyUMAP = new Map<string, { x: number; y: number }>()
+  stories.forEach((story, index) => {
+    storyUMAP.set(story.id, {
+      x: umapCoords[index][0],
+      y: umapCoords[index][1],
+    })
+  })
+
+  const norm =
+    options.norm ??
+    computeNormalization(
+      Array.from(storyUMAP.values()),
+      config.normalization,
+      (config.canvasWidth - 2 * config.margin) / (config.canvasHeight - 2 * config.margin),
+    )
+
+  // Above the hex budget nearby stories share hexes, and weights no longer apply
+  const maxHexes = config.maxHexes ?? Infinity
+  const binned = stories.length > maxHexes
+
+  const footprintRadius = binned
+    ? () => 0
+    : createFootprintScale(
+        stories.map(story => story.weight),
+        config.maxFootprintRadius,
+      )
+  // Radius of every story covering more than one cell
+  const footprints = new Map<string, number>()
+  stories.forEach(story => {
+    const radius = footprintRadius(story.weight)
+    if (radius > 0) footprints.set(story.id, radius)
+  })
+  const radiusOf = (id: string) => footprints.get(id) ?? 0
+  const cellCount = stories.reduce((sum, story) => sum + footprintCellCount(radiusOf(story.id)), 0)
+
+  // Sized for the initial stories; later additions may overflow its edge
+  const mask = config.shape
+    ? createShapeMask(config.shape, config, binned ? maxHexes : cellCount)
+    : null
+
+  // Hex of the bin a target falls into once pulled toward the center by `binScale`
+  let binScale = 1
+  const noCells = new Set<string>()
+  const toBinHex = (pixel: PixelCoordinate) => {
+    const hex = pixelToHex(pixel, config.hexRadius, config.orientation)
+    if (!mask || mask.containsHex(hex)) return hex
+    return findAvailableHex(hex, noCells, 200, mask.containsHex) ?? hex
+  }
+  const binOf = (target: PixelCoordinate) =>
+    toBinHex({ x: target.x * binScale, y: target.y * binScale })
+
+  const sortedStories = [...stories].sort((a, b) => {
+    if (a.cluster_id && b.cluster_id) {
+      return a.cluster_id.localeCompare(b.cluster_id)
+    }
+    if (a.cluster_id) return -1
+    if (b.cluster_id) return 1
+    return 0
+  })
+
+  const targets: PlacementTarget[] = sortedStories.map(story => {
+    const { x, y } = storyUMAP.get(story.id)!
+    return {
+      id: story.id,
+      clusterId: story.cluster_id,
+      target: projectToCanvas(x, y, norm, config, mask),
+    }
+  })
+
+  const layoutMode = config.layoutMode ?? 'semantic'
+  let placements = new Map<string, HexCoordinate>()
+
+  if (binned) {
+    binScale = fitBinScale(
+      targets.map(({ target }) => target),
+      maxHexes,
+      toBinHex,
+    )
+    targets.forEach(({ id, target }) => placements.set(id, binOf(target)))
+    reportProgress('placement', 1)
+  } else if (layoutMode === 'territories') {
+    placements = await layoutTerritories(
+      targets,
+      config.hexRadius,
+      config.orientation,
+      mask?.containsHex,
+      footprints,
+      checkpoint,
+      fraction => reportProgress('placement', fraction),
+    )
+  } else {
+    // Larger footprints are placed first, while there is still room near their targets
+    const placementTargets = (layoutMode === 'hybrid' ? pullTowardThemes(targets) : targets)
+      .slice()
+      .sort((a, b) => radiusOf(b.id) - radiusOf(a.id))
+    const occupied = new Set<string>()
+
+    for (const [index, { id, target }] of placementTargets.entries()) {
+      await checkpoint()
+      const hexCoord = placeStory(target, occupied, config, mask, radiusOf(id))
+
+      placements.set(id, hexCoord)
+      occupy(occupied, hexCoord, radiusOf(id))
+      reportProgress('placement', (index + 1) / placementTargets.length)
+    }
+
+    if (config.assignment === 'optimal') {
+      // Only single-cell stories move, and never onto a footprint
+      const covered = new Set<string>()
+      footprints.forEach((radius, id) => occupy(covered, placements.get(id)!, radius))
+      const reassigned = await assignOptimally(
+        placementTargets.filter(({ id }) => radiusOf(id) === 0),
+        placements,
+        config.hexRadius,
+        config.orientation,
+        checkpoint,
+        hex => !covered.has(`${hex.q},${hex.r}`) && (!mask || mask.containsHex(hex)),
+      )
+      reassigned.forEach((hex, id) => placements.set(id, hex))
+    }
+  }
+
+  const occupiedCells = new Set<string>()
+  placements.forEach((hex, id) => occupy(occupiedCells, hex, radiusOf(id)))
+
+  // Displacement is always measured from the story's own UMAP position
+  const displacements = new Map(
+    targets.map(({ id, target }) => [
+      id,
+      displacement(target, placements.get(id)!, config.hexRadius, config.orientation),
+    ]),
+  )
+
+  const umapCoordsArray = stories.map((story, index) => ({
+    id: story.id,
+    x: umapCoords[index][0],
+    y: umapCoords[index][1],
+  }))
+
+  // Snapshot the mutable layout state so earlier results are never changed by addStories
+  const snapshot = (): PlacementResult => ({
+    placements: new Map(placements),
+    umapCoords: [...umapCoordsArray],
+    normalization: norm,
+    displacements: new Map(displacements),
+    projection,
+    footprints: footprints.size > 0 ? new Map(footprints) : undefined,
+    binned,
+  })
+
+  return {
+    result: snapshot(),
+    addStories: newStories => {
+      const unplaced = newStories.filter(story => !placements.has(story.id))
+
+      if (unplaced.length > 0) {
+        const projected = transform(unplaced.map(s => s.embedding))
+
+        unplaced.forEach((story, index) => {
+          const [x, y] = projected[index]
+          const target = projectToCanvas(x, y, norm, config, mask)
+          const radius = footprintRadius(story.weight)
+          const hexCoord = binned
+            ? binOf(target)
+            : placeStory(target, occupiedCells, config, mask, radius)
+
+          placements.set(story.id, hexCoord)
+          if (radius > 0) footprints.set(story.id, radius)
+          displacements.set(
+            story.id,
+            displacement(target, hexCoord, config.hexRadius, config.orientation),
+          )
+          occupy(occupiedCells, hexCoord, radius)
+          umapCoordsArray.push({ id: story.id, x, y })
+        })
+      }
+
+      return snapshot()
+    },
+  }
+}
+
+/**
+ * Compute a hive layout: 2D projection of the embeddings followed by hex
+ * assignment. Runs anywhere (browser main thread, web worker or Node) and gives
+ * the same result for the same stories, config and seed.
+ */
+export async function computeHivePlacement(
+  stories: PlacementStory[],
+  options: HivePlacementOptions = {},
+): Promise<PlacementResult> {
+  const layout = await createHiveLayout(stories, options)
+  return layout.result
+}
@@ -0,0 +1,80 @@
+// Projection algorithms: reduce embeddings to 2D coordinates for placement
+
+import type { PlacementConfig, PlacementPhase, ProjectionMethod } from '../types'
+import type { RandomFn } from '../utils/random'
+import { euclideanDistance } from '../utils/distance'
+import { createUMAPProjection } from './projections/umap'
+import { createPCAProjection } from './projections/pca'
+import { createTSNEProjection } from './projections/tsne'
+
+// Services the engine provides to a running projection
+export interface ProjectionContext {
+  random: RandomFn
+  // Yields to the event loop now and then and throws an AbortError once aborted;
+  // long-running loops should await it every iteration
+  checkpoint: () => Promise<void>
+  onProgress: (phase: PlacementPhase, fraction: number) => void
+}
+
+export interface FittedProjection {
+  // One [x, y] pair per input row
+  coords: number[][]
+  // Parameters actually used, recorded in PlacementResult.projection
+  params: Record<string, number | string>
+  // Project further rows into the fitted space; neighbor interpolation is used when absent
+  transform?: (data: ArrayLike<number>[]) => number[][]
+}
+
+export interface ProjectionAlgorithm {
+  name: ProjectionMethod
+  // Rows may be Float32Array views into a packed buffer; algorithms must only index them
+  fit: (data: ArrayLike<number>[], context: ProjectionContext) => Promise<FittedProjection>
+}
+
+export function getProjectionAlgorithm(config: PlacementConfig): ProjectionAlgorithm {
+  switch (config.projection ?? 'umap') {
+    case 'pca':
+      return createPCAProjection()
+    case 'tsne':
+      return createTSNEProjection(config.tsne)
+    case 'umap':
+      return createUMAPProjection(config.umap)
+    default:
+      throw new Error(`Unknown projection algorithm: ${String(config.projection)}`)
+  }
+}
+
+// Number of fitted neighbors averaged when interpolating a new point
+const INTERPOLATION_NEIGHBORS = 5
+
+/**
+ * Place new rows at the inverse-distance weighted mean of their nearest fitted rows.
+ * Used for algorithms such as t-SNE that learn no mapping for unseen data.
+ */
+export function interpolateFromNeighbors(
+  fitted: ArrayLike<number>[],
+  coords: number[][],
+  data: ArrayLike<number>[],
+): number[][] {
+  const k = Math.min(INTERPOLATION_NEIGHBORS, fitted.length)
+
+  return data.map(row => {
+    const nearest = fitted
+      .map((other, index) => ({ index, d: euclideanDistance(row, other) }))
+      .sort((a, b) => a.d - b.d)
+      .slice(0, k)
+
+    const exact = nearest.find(({ d }) => d === 0)
+    if (exact) return [...coords[exact.index]]
+
+    let weightSum = 0
+    const point = [0, 0]
+    nearest.forEach(({ index, d }) => {
+      const weight = 1 / d
+      weightSum += weight
+      point[0] += coords[index][0] * weight
+      point[1] += coords[index][1] * weight
+    })
+    return [point[0] / weightSum, point[1] / weightSum]
+  })
+}
@@ -0,0 +1,90 @@
+// PCA projection: the two directions of largest variance, found by power iteration
+
+import type { ProjectionAlgorithm } from '../projection'
+
+const MAX_POWER_ITERATIONS = 100
+const CONVERGENCE_TOLERANCE = 1e-9
+
+const dot = (a: ArrayLike<number>, b: ArrayLike<number>) => {
+  let sum = 0
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i]
+  return sum
+}
+
+// Remove the components of v along each (unit) basis vector, then scale v to unit length
+function orthonormalize(v: Float64Array, basis: Float64Array[]): boolean {
+  basis.forEach(b => {
+    const projection = dot(v, b)
+    for (let i = 0; i < v.length; i++) v[i] -= projection * b[i]
+  })
+  const norm = Math.sqrt(dot(v, v))
+  if (norm === 0) return false
+  for (let i = 0; i < v.length; i++) v[i] /= norm
+  return true
+}
+
+export function createPCAProjection(): ProjectionAlgorithm {
+  return {
+    name: 'pca',
+    fit: async (data, { random, checkpoint, onProgress }) => {
+      const dimensions = data[0].length
+      const mean = new Float64Array(dimensions)
+      data.forEach(row => {
+        for (let i = 0; i < dimensions; i++) mean[i] += row[i] / data.length
+      })
+      const centered = data.map(row => Float64Array.from(row, (value, i) => value - mean[i]))
+      const totalVariance = centered.reduce((sum, row) => sum + dot(row, row), 0)
+
+      // Power iteration on the covariance, applied as Xᵀ(Xv) without forming it
+      const components: Float64Array[] = []
+      const variances: number[] = []
+      for (let c = 0; c < 2; c++) {
+        let v = Float64Array.from({ length: dimensions }, () => random() - 0.5)
+        orthonormalize(v, components)
+
+        for (let iteration = 0; iteration < MAX_POWER_ITERATIONS; iteration++) {
+          await checkpoint()
+
+          const next = new Float64Array(dimensions)
+          centered.forEach(row => {
+            const score = dot(row, v)
+            for (let i = 0; i < dimensions; i++) next[i] += score * row[i]
+          })
+          // A rank-deficient dataset has no further direction; keep the orthogonal start vector
+          if (!orthonormalize(next, components)) break
+
+          const change = 1 - Math.abs(dot(next, v))
+          v = next
+          onProgress('optimize', (c + (iteration + 1) / MAX_POWER_ITERATIONS) / 2)
+          if (change < CONVERGENCE_TOLERANCE) break
+        }
+
+        // Fix the sign so the largest loading is positive and layouts are reproducible
+        let largest = 0
+        v.forEach((value, i) => {
+          if (Math.abs(value) > Math.abs(v[largest])) largest = i
+        })
+        if (v[largest] < 0) v = v.map(value => -value)
+
+        components.push(v)
+        variances.push(centered.reduce((sum, row) => sum + dot(row, v) ** 2, 0))
+      }
+      onProgress('optimize', 1)
+
+      const project = (row: ArrayLike<number>) => {
+        const shifted = Float64Array.from(row, (value, i) => value - mean[i])
+        return components.map(component => dot(shifted, component))
+      }
+
+      return {
+        coords: data.map(project),
+        params: {
+          components: 2,
+          explainedVarianceRatio:
+            totalVariance > 0 ? (variances[0] + variances[1]) / totalVariance : 0,
+        },
+        transform: rows => rows.map(project),
+      }
+    },
+  }
+}
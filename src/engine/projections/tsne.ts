@@ -0,0 +1,188 @@
+// Exact t-SNE (van der Maaten & Hinton, 2008); O(n²) time and memory per iteration.
+// New stories are placed by the engine's neighbor interpolation, as t-SNE learns no mapping.
+
+import type { TSNEOptions } from '../../types'
+import type { RandomFn } from '../../utils/random'
+import type { ProjectionAlgorithm } from '../projection'
+import { resolveMetric } from '../../utils/distance'
+
+const DEFAULT_PERPLEXITY = 30
+const DEFAULT_ITERATIONS = 1000
+// Iterations with exaggerated attraction and low momentum, so clusters form early
+const EARLY_EXAGGERATION_ITERATIONS = 250
+const EARLY_EXAGGERATION = 12
+const PERPLEXITY_SEARCH_STEPS = 50
+const PERPLEXITY_TOLERANCE = 1e-5
+
+// Standard normal sample (Box-Muller)
+function gaussian(random: RandomFn): number {
+  const u = Math.max(random(), Number.EPSILON)
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random())
+}
+
+/**
+ * Conditional affinities p(j|i) for one row, with the Gaussian bandwidth found by
+ * binary search so the distribution's entropy matches log(perplexity).
+ */
+function rowAffinities(
+  distances: Float64Array,
+  i: number,
+  n: number,
+  targetEntropy: number,
+  out: Float64Array,
+) {
+  let minDistance = Infinity
+  for (let j = 0; j < n; j++) {
+    if (j !== i) minDistance = Math.min(minDistance, distances[i * n + j])
+  }
+
+  let beta = 1
+  let lower = -Infinity
+  let upper = Infinity
+
+  for (let step = 0; step < PERPLEXITY_SEARCH_STEPS; step++) {
+    let sum = 0
+    let weightedDistance = 0
+    for (let j = 0; j < n; j++) {
+      // Shifting by the smallest distance keeps the nearest neighbor's weight at 1
+      const shifted = distances[i * n + j] - minDistance
+      const p = j === i ? 0 : Math.exp(-shifted * beta)
+      out[j] = p
+      sum += p
+      weightedDistance += shifted * p
+    }
+
+    const entropy = Math.log(sum) + (beta * weightedDistance) / sum
+    const difference = entropy - targetEntropy
+    for (let j = 0; j < n; j++) out[j] /= sum
+
+    if (Math.abs(difference) < PERPLEXITY_TOLERANCE) break
+    if (difference > 0) {
+      lower = beta
+      beta = upper === Infinity ? beta * 2 : (beta + upper) / 2
+    } else {
+      upper = beta
+      beta = lower === -Infinity ? beta / 2 : (beta + lower) / 2
+    }
+  }
+}
+
+export function createTSNEProjection(options: TSNEOptions = {}): ProjectionAlgorithm {
+  return {
+    name: 'tsne',
+    fit: async (data, { random, checkpoint, onProgress }) => {
+      const n = data.length
+      const distanceFn = resolveMetric(options.metric)
+      const perplexity = Math.max(
+        1,
+        Math.min(options.perplexity ?? DEFAULT_PERPLEXITY, (n - 1) / 3),
+      )
+      const nIterations = options.nIterations ?? DEFAULT_ITERATIONS
+      const learningRate = options.learningRate ?? Math.max(n / 12, 50)
+      const exaggerationIterations = Math.min(
+        EARLY_EXAGGERATION_ITERATIONS,
+        Math.floor(nIterations / 4),
+      )
+
+      // Squared pairwise distances
+      onProgress('knn', 0)
+      const distances = new Float64Array(n * n)
+      for (let i = 0; i < n; i++) {
+        await checkpoint()
+        for (let j = i + 1; j < n; j++) {
+          const d = distanceFn(data[i], data[j]) ** 2
+          distances[i * n + j] = d
+          distances[j * n + i] = d
+        }
+        onProgress('knn', (i + 1) / (2 * n))
+      }
+
+      // Symmetric joint probabilities P, stored in place of the distances
+      const conditional = new Float64Array(n * n)
+      const row = new Float64Array(n)
+      const targetEntropy = Math.log(perplexity)
+      for (let i = 0; i < n; i++) {
+        await checkpoint()
+        rowAffinities(distances, i, n, targetEntropy, row)
+        conditional.set(row, i * n)
+        onProgress('knn', 0.5 + (i + 1) / (2 * n))
+      }
+      const P = distances
+      for (let i = 0; i < n; i++) {
+        for (let j = 0; j < n; j++) {
+          P[i * n + j] = Math.max(
+            (conditional[i * n + j] + conditional[j * n + i]) / (2 * n),
+            1e-12,
+          )
+        }
+      }
+
+      // Gradient descent with momentum and per-coordinate gains
+      const Y = Float64Array.from({ length: n * 2 }, () => gaussian(random) * 1e-4)
+      const update = new Float64Array(n * 2)
+      const gains = new Float64Array(n * 2).fill(1)
+      const gradient = new Float64Array(n * 2)
+      const numerators = conditional
+
+      for (let iteration = 0; iteration < nIterations; iteration++) {
+        await checkpoint()
+
+        const exaggeration = iteration < exaggerationIterations ? EARLY_EXAGGERATION : 1
+        const momentum = iteration < exaggerationIterations ? 0.5 : 0.8
+
+        // Student-t similarities q_ij ∝ 1 / (1 + |y_i - y_j|²)
+        let sumQ = 0
+        for (let i = 0; i < n; i++) {
+          for (let j = i + 1; j < n; j++) {
+            const dx = Y[2 * i] - Y[2 * j]
+            const dy = Y[2 * i + 1] - Y[2 * j + 1]
+            const q = 1 / (1 + dx * dx + dy * dy)
+            numerators[i * n + j] = q
+            numerators[j * n + i] = q
+            sumQ += 2 * q
+          }
+        }
+
+        gradient.fill(0)
+        for (let i = 0; i < n; i++) {
+          for (let j = 0; j < n; j++) {
+            if (i === j) continue
+            const q = numerators[i * n + j]
+            const force = (exaggeration * P[i * n + j] - q / sumQ) * q
+            gradient[2 * i] += 4 * force * (Y[2 * i] - Y[2 * j])
+            gradient[2 * i + 1] += 4 * force * (Y[2 * i + 1] - Y[2 * j + 1])
+          }
+        }
+
+        let meanX = 0
+        let meanY = 0
+        for (let k = 0; k < n * 2; k++) {
+          const sameDirection = Math.sign(gradient[k]) === Math.sign(update[k])
+          gains[k] = Math.max(sameDirection ? gains[k] * 0.8 : gains[k] + 0.2, 0.01)
+          update[k] = momentum * update[k] - learningRate * gains[k] * gradient[k]
+          Y[k] += update[k]
+          if (k % 2 === 0) meanX += Y[k] / n
+          else meanY += Y[k] / n
+        }
+        for (let i = 0; i < n; i++) {
+          Y[2 * i] -= meanX
+          Y[2 * i + 1] -= meanY
+        }
+
+        onProgress('optimize', (iteration + 1) / nIterations)
+      }
+
+      const coords = Array.from({ length: n }, (_, i) => [Y[2 * i], Y[2 * i + 1]])
+
+      return {
+        coords,
+        params: {
+          perplexity,
+          nIterations,
+          learningRate,
+          metric: options.metric ?? 'euclidean',
+        },
+      }
+    },
+  }
+}
@@ -0,0 +1,114 @@
+// UMAP projection backed by umap-js, run epoch by epoch for progress and cancellation
+
+import type { UMAPOptions } from '../../types'
+import type { UMAP as UMAPType } from 'umap-js'
+import type { ProjectionAlgorithm } from '../projection'
+import { resolveMetric } from '../../utils/distance'
+
+type UMAPConstructor = typeof UMAPType
+
+let UMAPCtor: UMAPConstructor | null = null
+
+// Load UMAP library dynamically
+async function loadUMAP(): Promise<UMAPConstructor> {
+  if (UMAPCtor) return UMAPCtor
+
+  try {
+    const umapModule: unknown = await import('umap-js')
+
+    let resolved: UMAPConstructor | undefined
+
+    if (typeof umapModule === 'function') {
+      resolved = umapModule as UMAPConstructor
+    } else if (typeof umapModule === 'object' && umapModule !== null) {
+      if ('UMAP' in umapModule && typeof (umapModule as { UMAP?: unknown }).UMAP === 'function') {
+        resolved = (umapModule as { UMAP: unknown }).UMAP as UMAPConstructor
+      } else {
+        const defaultExport = (umapModule as { default?: unknown }).default
+        if (typeof defaultExport === 'function') {
+          resolved = defaultExport as UMAPConstructor
+        } else if (
+          defaultExport &&
+          typeof defaultExport === 'object' &&
+          'UMAP' in defaultExport &&
+          typeof (defaultExport as { UMAP?: unknown }).UMAP === 'function'
+        ) {
+          resolved = (defaultExport as { UMAP: unknown }).UMAP as UMAPConstructor
+        }
+      }
+    }
+
+    if (!resolved) {
+      throw new Error('UMAP class not found in umap-js package')
+    }
+
+    UMAPCtor = resolved
+    return UMAPCtor
+  } catch (e) {
+    throw new Error(
+      `Failed to load UMAP library: ${e instanceof Error ? e.message : String(e)}. ` +
+        `Please install: npm install umap-js`,
+    )
+  }
+}
+
+// umap-js declares its rows as number[] but only indexes them, so Float32Array rows are
+// handed over without copying
+const asVectors = (rows: ArrayLike<number>[]) => rows as number[][]
+
+// umap-js transforms for nEpochs / 3 epochs and loops forever unless that is a whole number
+const roundEpochs = (nEpochs?: number): number | undefined =>
+  nEpochs === undefined ? undefined : Math.max(3, Math.round(nEpochs / 3) * 3)
+
+export function createUMAPProjection(options: UMAPOptions = {}): ProjectionAlgorithm {
+  return {
+    name: 'umap',
+    fit: async (data, { random, checkpoint, onProgress }) => {
+      const UMAPClass = await loadUMAP()
+
+      // Calculate nNeighbors - must be less than the number of data points
+      const maxNeighbors = Math.max(2, data.length - 1) // At least 2, but less than data points
+      const calculatedNeighbors =
+        options.nNeighbors ?? Math.min(15, Math.max(2, Math.floor(Math.sqrt(data.length))))
+      const nNeighbors = Math.min(calculatedNeighbors, maxNeighbors)
+      const minDist = options.minDist ?? 0.1
+      const spread = options.spread ?? 1.0
+
+      const umap = new UMAPClass({
+        nComponents: 2,
+        nNeighbors,
+        minDist,
+        spread,
+        nEpochs: roundEpochs(options.nEpochs),
+        distanceFn: resolveMetric(options.metric),
+        random,
+      })
+
+      // umap-js builds the neighbor graph in one synchronous call, so it can only be
+      // interrupted before and after
+      onProgress('knn', 0)
+      await checkpoint()
+      const nEpochs = umap.initializeFit(asVectors(data))
+      onProgress('knn', 1)
+      await checkpoint()
+
+      for (let epoch = 0; epoch < nEpochs; epoch++) {
+        await checkpoint()
+        umap.step()
+        onProgress('optimize', (epoch + 1) / nEpochs)
+      }
+
+      return {
+        coords: umap.getEmbedding(),
+        params: {
+          nNeighbors,
+          minDist,
+          spread,
+          nEpochs,
+          metric: typeof options.metric === 'function' ? 'custom' : (options.metric ?? 'euclidean'),
+        },
+        transform: rows => umap.transform(asVectors(rows)),
+      }
+    },
+  }
+}
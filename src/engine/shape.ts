@@ -0,0 +1,370 @@
+// Hive shapes: masks that confine placement to a circle, hexagon, rectangle or any
+// polygon / SVG path outline, fitted to the canvas
+
+import type {
+  HexCoordinate,
+  HexOrientation,
+  HiveShape,
+  PixelCoordinate,
+  PlacementConfig,
+} from '../types'
+import { getHexesInRange, hexCorners, hexToPixel } from '../utils/hex'
+
+type Point = [number, number]
+type Ring = Point[]
+
+// Segments used to flatten circles and each Bézier curve or arc of a path
+const CIRCLE_SEGMENTS = 96
+const CURVE_SEGMENTS = 16
+// Growth per step when a mask has fewer cells than stories
+const MASK_GROWTH = 1.05
+const MAX_GROWTH_STEPS = 200
+
+/**
+ * Flatten SVG path data into closed rings. Supports every command (M, L, H, V, C, S,
+ * Q, T, A, Z) in absolute and relative form; curves and arcs become line segments.
+ */
+export function parseSvgPath(d: string): Ring[] {
+  const tokens = d.match(/[MmLlHhVvCcSsQqTtAaZz]|[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?/g) ?? []
+  const rings: Ring[] = []
+  let ring: Ring = []
+  let x = 0
+  let y = 0
+  let startX = 0
+  let startY = 0
+  // Control point of the previous curve, reflected by S and T
+  let lastControl: Point | null = null
+  let command = ''
+  let index = 0
+
+  const isCommand = (token: string) => /^[A-Za-z]$/.test(token)
+  const next = () => {
+    const value = Number(tokens[index++])
+    if (Number.isNaN(value)) throw new Error(`Invalid SVG path data: ${d}`)
+    return value
+  }
+  const closeRing = () => {
+    if (ring.length > 2) rings.push(ring)
+    ring = []
+  }
+  const lineTo = (nx: number, ny: number) => {
+    if (ring.length === 0) ring.push([x, y])
+    ring.push([nx, ny])
+    x = nx
+    y = ny
+  }
+  const curveTo = (point: (t: number) => Point) => {
+    for (let i = 1; i <= CURVE_SEGMENTS; i++) {
+      const [px, py] = point(i / CURVE_SEGMENTS)
+      lineTo(px, py)
+    }
+  }
+
+  while (index < tokens.length) {
+    if (isCommand(tokens[index])) {
+      command = tokens[index++]
+    } else if (!command) {
+      throw new Error(`Invalid SVG path data: ${d}`)
+    }
+
+    const relative = command === command.toLowerCase()
+    const ox = relative ? x : 0
+    const oy = relative ? y : 0
+    let control: Point | null = null
+
+    switch (command.toUpperCase()) {
+      case 'M': {
+        closeRing()
+        x = ox + next()
+        y = oy + next()
+        startX = x
+        startY = y
+        // Further coordinate pairs after a moveto are linetos
+        command = relative ? 'l' : 'L'
+        break
+      }
+      case 'L':
+        lineTo(ox + next(), oy + next())
+        break
+      case 'H':
+        lineTo((relative ? x : 0) + next(), y)
+        break
+      case 'V':
+        lineTo(x, (relative ? y : 0) + next())
+        break
+      case 'C':
+      case 'S': {
+        const smooth = command.toUpperCase() === 'S'
+        const [x0, y0] = [x, y]
+        const c1: Point =
+          smooth && lastControl
+            ? [2 * x0 - lastControl[0], 2 * y0 - lastControl[1]]
+            : smooth
+              ? [x0, y0]
+              : [ox + next(), oy + next()]
+        const c2: Point = [ox + next(), oy + next()]
+        const end: Point = [ox + next(), oy + next()]
+        curveTo(t => {
+          const u = 1 - t
+          return [
+            u * u * u * x0 + 3 * u * u * t * c1[0] + 3 * u * t * t * c2[0] + t * t * t * end[0],
+            u * u * u * y0 + 3 * u * u * t * c1[1] + 3 * u * t * t * c2[1] + t * t * t * end[1],
+          ]
+        })
+        control = c2
+        break
+      }
+      case 'Q':
+      case 'T': {
+        const smooth = command.toUpperCase() === 'T'
+        const [x0, y0] = [x, y]
+        const c: Point =
+          smooth && lastControl
+            ? [2 * x0 - lastControl[0], 2 * y0 - lastControl[1]]
+            : smooth
+              ? [x0, y0]
+              : [ox + next(), oy + next()]
+        const end: Point = [ox + next(), oy + next()]
+        curveTo(t => {
+          const u = 1 - t
+          return [
+            u * u * x0 + 2 * u * t * c[0] + t * t * end[0],
+            u * u * y0 + 2 * u * t * c[1] + t * t * end[1],
+          ]
+        })
+        control = c
+        break
+      }
+      case 'A': {
+        const rx = next()
+        const ry = next()
+        const rotation = next()
+        const largeArc = next() !== 0
+        const sweep = next() !== 0
+        const end: Point = [ox + next(), oy + next()]
+        arcPoints([x, y], end, rx, ry, rotation, largeArc, sweep).forEach(([px, py]) =>
+          lineTo(px, py),
+        )
+        break
+      }
+      case 'Z':
+        x = startX
+        y = startY
+        closeRing()
+        command = ''
+        break
+      default:
+        throw new Error(`Unsupported SVG path command: ${command}`)
+    }
+
+    lastControl = control
+  }
+
+  closeRing()
+  return rings
+}
+
+// Points along an elliptical arc, using the endpoint-to-center conversion of the SVG spec
+function arcPoints(
+  [x1, y1]: Point,
+  [x2, y2]: Point,
+  rx: number,
+  ry: number,
+  rotationDegrees: number,
+  largeArc: boolean,
+  sweep: boolean,
+): Point[] {
+  rx = Math.abs(rx)
+  ry = Math.abs(ry)
+  if (rx === 0 || ry === 0 || (x1 === x2 && y1 === y2)) return [[x2, y2]]
+
+  const phi = (rotationDegrees * Math.PI) / 180
+  const cos = Math.cos(phi)
+  const sin = Math.sin(phi)
+  const dx = (x1 - x2) / 2
+  const dy = (y1 - y2) / 2
+  const x1p = cos * dx + sin * dy
+  const y1p = -sin * dx + cos * dy
+
+  // Scale up radii that are too small to span the endpoints
+  const lambda = (x1p * x1p) / (rx * rx) + (y1p * y1p) / (ry * ry)
+  if (lambda > 1) {
+    rx *= Math.sqrt(lambda)
+    ry *= Math.sqrt(lambda)
+  }
+
+  const numerator = rx * rx * ry * ry - rx * rx * y1p * y1p - ry * ry * x1p * x1p
+  const denominator = rx * rx * y1p * y1p + ry * ry * x1p * x1p
+  const factor = (largeArc === sweep ? -1 : 1) * Math.sqrt(Math.max(0, numerator / denominator))
+  const cxp = (factor * rx * y1p) / ry
+  const cyp = (-factor * ry * x1p) / rx
+  const cx = cos * cxp - sin * cyp + (x1 + x2) / 2
+  const cy = sin * cxp + cos * cyp + (y1 + y2) / 2
+
+  const angle = (ux: number, uy: number) => Math.atan2(uy, ux)
+  const theta1 = angle((x1p - cxp) / rx, (y1p - cyp) / ry)
+  let delta = angle((-x1p - cxp) / rx, (-y1p - cyp) / ry) - theta1
+  if (sweep && delta < 0) delta += 2 * Math.PI
+  if (!sweep && delta > 0) delta -= 2 * Math.PI
+
+  return Array.from({ length: CURVE_SEGMENTS }, (_, i) => {
+    if (i === CURVE_SEGMENTS - 1) return [x2, y2]
+    const theta = theta1 + (delta * (i + 1)) / CURVE_SEGMENTS
+    const ex = rx * Math.cos(theta)
+    const ey = ry * Math.sin(theta)
+    return [cos * ex - sin * ey + cx, sin * ex + cos * ey + cy]
+  })
+}
+
+// The shape's outline in its own coordinates; fitted to the canvas afterwards
+function shapeRings(
+  shape: Exclude<HiveShape, 'rectangle'>,
+  orientation: HexOrientation | undefined,
+): Ring[] {
+  if (shape === 'circle') {
+    return [
+      Array.from({ length: CIRCLE_SEGMENTS }, (_, i): Point => {
+        const angle = (2 * Math.PI * i) / CIRCLE_SEGMENTS
+        return [Math.cos(angle), Math.sin(angle)]
+      }),
+    ]
+  }
+  if (shape === 'hexagon') {
+    // Oriented like the hexes themselves
+    return [hexCorners(0, 0, 1, orientation).map(({ x, y }): Point => [x, y])]
+  }
+  if ('polygon' in shape) {
+    return [shape.polygon]
+  }
+  return parseSvgPath(shape.path)
+}
+
+// Even-odd rule, so rings inside other rings cut holes
+function ringsContain(rings: Ring[], x: number, y: number): boolean {
+  let inside = false
+  rings.forEach(ring => {
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+      const [xi, yi] = ring[i]
+      const [xj, yj] = ring[j]
+      if (yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+        inside = !inside
+      }
+    }
+  })
+  return inside
+}
+
+// Multiples t > 0 of direction (dx, dy) at which the ray from the origin crosses an edge
+function rayCrossings(rings: Ring[], dx: number, dy: number): number[] {
+  const crossings: number[] = []
+  rings.forEach(ring => {
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+      const [ax, ay] = ring[j]
+      const ex = ring[i][0] - ax
+      const ey = ring[i][1] - ay
+      const denominator = dx * ey - dy * ex
+      if (denominator === 0) continue
+      const t = (ax * ey - ay * ex) / denominator
+      const u = (ax * dy - ay * dx) / denominator
+      if (t > 0 && u >= 0 && u <= 1) crossings.push(t)
+    }
+  })
+  return crossings
+}
+
+export interface ShapeMask {
+  containsHex: (hex: HexCoordinate) => boolean
+  // Map a normalized position (0..1 on both axes, y up) to a pixel position inside the mask
+  fromUnitSquare: (nx: number, ny: number) => PixelCoordinate
+}
+
+/**
+ * Fit `shape` into the canvas area inside the margins, centered like the hive, and grow
+ * it until it holds at least `minCells` hexes. Positions are mapped into the mask
+ * radially: a point a given fraction of the way from the center to the canvas edge
+ * lands the same fraction of the way to the mask's edge in that direction.
+ */
+export function createShapeMask(
+  shape: HiveShape,
+  config: PlacementConfig,
+  minCells: number,
+): ShapeMask {
+  const width = config.canvasWidth - 2 * config.margin
+  const height = config.canvasHeight - 2 * config.margin
+
+  let fitted: Ring[]
+  if (shape === 'rectangle') {
+    fitted = [
+      [
+        [-width / 2, -height / 2],
+        [width / 2, -height / 2],
+        [width / 2, height / 2],
+        [-width / 2, height / 2],
+      ],
+    ]
+  } else {
+    const rings = shapeRings(shape, config.orientation)
+    const points = rings.flat()
+    if (points.length < 3) {
+      throw new Error('A hive shape needs at least three points')
+    }
+    const xs = points.map(([px]) => px)
+    const ys = points.map(([, py]) => py)
+    const minX = Math.min(...xs)
+    const minY = Math.min(...ys)
+    const boxWidth = Math.max(...xs) - minX
+    const boxHeight = Math.max(...ys) - minY
+    const scale = Math.min(width / (boxWidth || 1), height / (boxHeight || 1))
+    // Polygon and path coordinates are y-down, like the canvas
+    fitted = rings.map(ring =>
+      ring.map(
+        ([px, py]): Point => [
+          (px - minX - boxWidth / 2) * scale,
+          (py - minY - boxHeight / 2) * scale,
+        ],
+      ),
+    )
+  }
+
+  const countCells = (rings: Ring[]) => {
+    // Hex centers n steps from the origin are at least 1.5 radii per step away
+    const reach = Math.max(...rings.flat().map(([px, py]) => Math.hypot(px, py)))
+    const steps = Math.ceil(reach / (1.5 * config.hexRadius))
+    return getHexesInRange({ q: 0, r: 0 }, steps).filter(hex => {
+      const { x, y } = hexToPixel(hex, config.hexRadius, config.orientation)
+      return ringsContain(rings, x, y)
+    }).length
+  }
+
+  // Too small for every story: enlarge the outline about its center
+  let rings = fitted
+  for (let step = 0; step < MAX_GROWTH_STEPS && countCells(rings) < minCells; step++) {
+    rings = rings.map(ring => ring.map(([px, py]): Point => [px * MASK_GROWTH, py * MASK_GROWTH]))
+  }
+  const centerInside = ringsContain(rings, 0, 0)
+
+  return {
+    containsHex: hex => {
+      const { x, y } = hexToPixel(hex, config.hexRadius, config.orientation)
+      return ringsContain(rings, x, y)
+    },
+    fromUnitSquare: (nx, ny) => {
+      const dx = (nx - 0.5) * width
+      const dy = (0.5 - ny) * height
+      if (dx === 0 && dy === 0) return { x: 0, y: 0 }
+
+      // Distance to the canvas edge along the ray, as a multiple of (dx, dy)
+      const toEdge = Math.min(
+        dx === 0 ? Infinity : width / 2 / Math.abs(dx),
+        dy === 0 ? Infinity : height / 2 / Math.abs(dy),
+      )
+      const crossings = rayCrossings(rings, dx, dy)
+      if (crossings.length === 0) return { x: 0, y: 0 }
+      // The nearest crossing keeps the point inside; from outside, use the farthest
+      const toMask = centerInside ? Math.min(...crossings) : Math.max(...crossings)
+
+      const scale = toMask / toEdge
+      return { x: dx * scale, y: dy * scale }
+    },
+  }
+}
@@ -0,0 +1,370 @@
+import { act } from 'react'
+import { createRoot } from 'react-dom/client'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+import {
+  useUMAPPlacement,
+  type UseUMAPPlacementOptions,
+  type UseUMAPPlacementReturn,
+} from '../useUMAPPlacement'
+import { createHiveLayout } from '../../engine/placement'
+import { isAbortError } from '../../utils/abort'
+import { packStories, unpackStories } from '../../utils/embeddings'
+import { createMemoryPlacementCache } from '../../utils/placementCache'
+import type { ProgressMessage } from '../../workers/umap-placement.worker'
+
+// Lets React flush updates inside act() outside a testing library
+Object.assign(globalThis, { IS_REACT_ACT_ENVIRONMENT: true })
+
+type Listener = (event: { data?: unknown }) => void
+
+// Stands in for the placement worker: records what is posted and replies on demand
+class MockWorker {
+  static instances: MockWorker[] = []
+  messages: Array<Record<string, unknown>> = []
+  private listeners = new Map<string, Set<Listener>>()
+
+  constructor(public url: string) {
+    MockWorker.instances.push(this)
+  }
+
+  addEventListener(type: string, listener: Listener) {
+    const listeners = this.listeners.get(type) ?? new Set()
+    listeners.add(listener)
+    this.listeners.set(type, listeners)
+  }
+
+  removeEventListener(type: string, listener: Listener) {
+    this.listeners.get(type)?.delete(listener)
+  }
+
+  postMessage(message: Record<string, unknown>) {
+    this.messages.push(message)
+  }
+
+  terminate() {
+    this.listeners.clear()
+  }
+
+  reply(data: object) {
+    this.listeners.get('message')?.forEach(listener => listener({ data }))
+  }
+
+  fail() {
+    this.listeners.get('error')?.forEach(listener => listener({}))
+  }
+
+  requestsOfType(type: string) {
+    return this.messages.filter(message => message.type === type)
+  }
+}
+
+function renderPlacementHook(options: UseUMAPPlacementOptions) {
+  const hook: { current: UseUMAPPlacementReturn } = { current: null as never }
+  function Probe() {
+    hook.current = useUMAPPlacement(options)
+    return null
+  }
+
+  const root = createRoot(document.createElement('div'))
+  act(() => root.render(<Probe />))
+  return { hook, unmount: () => act(() => root.unmount()) }
+}
+
+const stories = [
+  { id: 'a', text: 'A', cluster_id: 'theme-a', embedding: [0, 0, 1] },
+  { id: 'b', text: 'B', cluster_id: 'theme-a', embedding: [0, 1, 0] },
+  { id: 'c', text: 'C', cluster_id: 'theme-b', embedding: [1, 0, 0] },
+]
+
+const resultFor = (requestId: number, q: number) => ({
+  type: 'placementResult',
+  requestId,
+  placements: stories.map(story => [story.id, { q, r: 0 }]),
+  umapCoords: stories.map(story => ({ id: story.id, x: q, y: 0 })),
+})
+
+describe('useUMAPPlacement', () => {
+  beforeEach(() => {
+    MockWorker.instances = []
+    vi.stubGlobal('Worker', MockWorker)
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+  })
+
+  it('cancels a superseded request in the worker', async () => {
+    const { hook, unmount } = renderPlacementHook({ workerUrl: 'worker.js', execution: 'worker' })
+    const worker = MockWorker.instances[0]
+
+    let first!: Promise<unknown>
+    act(() => {
+      first = hook.current.computePlacement(stories).catch(error => error)
+    })
+    act(() => {
+      hook.current.computePlacement(stories).catch(() => undefined)
+    })
+
+    const [firstRequest, secondRequest] = worker.requestsOfType('computePlacement')
+    expect(isAbortError(await first)).toBe(true)
+    expect(worker.requestsOfType('cancel')).toEqual([
+      { type: 'cancel', requestId: firstRequest.requestId },
+    ])
+    expect(secondRequest.requestId).not.toBe(firstRequest.requestId)
+    unmount()
+  })
+
+  it('ignores replies to requests that are no longer pending', async () => {
+    const { hook, unmount } = renderPlacementHook({ workerUrl: 'worker.js', execution: 'worker' })
+    const worker = MockWorker.instances[0]
+
+    let second!: Promise<{ placements: Map<string, { q: number; r: number }> }>
+    act(() => {
+      hook.current.computePlacement(stories).catch(() => undefined)
+    })
+    act(() => {
+      second = hook.current.computePlacement(stories)
+    })
+    const [firstRequest, secondRequest] = worker.requestsOfType('computePlacement')
+
+    // The superseded request finishes anyway; its result must not settle the new one
+    act(() => worker.reply(resultFor(firstRequest.requestId as number, 1)))
+    expect(hook.current.loading).toBe(true)
+
+    act(() => worker.reply(resultFor(secondRequest.requestId as number, 2)))
+    const result = await second
+    expect(result.placements.get('a')).toEqual({ q: 2, r: 0 })
+    expect(hook.current.loading).toBe(false)
+    unmount()
+  })
+
+  it('restarts the inactivity timeout whenever the worker reports progress', async () => {
+    vi.useFakeTimers()
+    vi.spyOn(console, 'error').mockImplementation(() => undefined)
+    const { hook, unmount } = renderPlacementHook({ workerUrl: 'worker.js', execution: 'worker' })
+    const worker = MockWorker.instances[0]
+
+    let settled = false
+    let outcome!: Promise<unknown>
+    act(() => {
+      outcome = hook.current.computePlacement(stories).then(
+        result => result,
+        error => error,
+      )
+      outcome.then(() => {
+        settled = true
+      })
+    })
+    const requestId = worker.requestsOfType('computePlacement')[0].requestId as number
+
+    await act(async () => {
+      vi.advanceTimersByTime(20_000)
+      const progress: ProgressMessage = {
+        type: 'progress',
+        requestId,
+        phase: 'optimize',
+        percent: 40,
+      }
+      worker.reply(progress)
+      vi.advanceTimersByTime(20_000)
+    })
+    expect(settled).toBe(false)
+    expect(hook.current.progress).toEqual({ phase: 'optimize', percent: 40 })
+
+    await act(async () => {
+      vi.advanceTimersByTime(10_001)
+    })
+    const error = await outcome
+    expect(error).toBeInstanceOf(Error)
+    expect((error as Error).message).toBe('Placement computation timeout')
+    expect(worker.requestsOfType('cancel')).toEqual([{ type: 'cancel', requestId }])
+    unmount()
+  })
+
+  it('finishes on the main thread when the worker fails before its first reply', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined)
+    const { hook, unmount } = renderPlacementHook({ workerUrl: 'worker.js', execution: 'auto' })
+    const worker = MockWorker.instances[0]
+    expect(hook.current.execution).toBe('worker')
+
+    let pending!: Promise<{ placements: Map<string, { q: number; r: number }> }>
+    act(() => {
+      pending = hook.current.computePlacement(stories, undefined, {
+        seed: 1,
+        umap: { nEpochs: 20 },
+      })
+    })
+    expect(worker.requestsOfType('computePlacement')).toHaveLength(1)
+
+    await act(async () => {
+      worker.fail()
+    })
+    const result = await act(() => pending)
+
+    expect(Array.from(result.placements.keys()).sort()).toEqual(['a', 'b', 'c'])
+    expect(hook.current.execution).toBe('main')
+    expect(hook.current.error).toBeNull()
+    unmount()
+  })
+
+  it('places everything afresh when stories are added after a cache hit', async () => {
+    const cache = createMemoryPlacementCache()
+    const options = { workerUrl: 'worker.js', execution: 'worker' as const, cache }
+    const earlier = renderPlacementHook(options)
+
+    let first!: Promise<unknown>
+    await act(async () => {
+      first = earlier.hook.current.computePlacement(stories)
+    })
+    const firstRequest = MockWorker.instances[0].requestsOfType('computePlacement')[0]
+    await act(async () => {
+      MockWorker.instances[0].reply(resultFor(firstRequest.requestId as number, 1))
+      await first
+    })
+    earlier.unmount()
+
+    // A later session has nothing to align to, so it finds the stored layout
+    const { hook, unmount } = renderPlacementHook(options)
+    const worker = MockWorker.instances[1]
+    const cached = await act(() => hook.current.computePlacement(stories))
+    expect(cached.fromCache).toBe(true)
+
+    const added = { id: 'd', text: 'D', cluster_id: 'theme-b', embedding: [1, 1, 0] }
+    let extended!: Promise<{ placements: Map<string, { q: number; r: number }> }>
+    await act(async () => {
+      extended = hook.current.addStories([added])
+    })
+
+    // No model was fitted for the cached result, so the worker gets a full placement
+    expect(worker.requestsOfType('addStories')).toHaveLength(0)
+    const refit = worker.requestsOfType('computePlacement')[0]
+    expect((refit.stories as { ids: string[] }).ids).toEqual(['a', 'b', 'c', 'd'])
+
+    await act(async () => {
+      worker.reply({
+        ...resultFor(refit.requestId as number, 3),
+        placements: [...stories, added].map(story => [story.id, { q: 3, r: 0 }]),
+      })
+    })
+    expect((await extended).placements.get('d')).toEqual({ q: 3, r: 0 })
+    unmount()
+  })
+
+  it('fits a model for stories added to a single-story layout', async () => {
+    const { hook, unmount } = renderPlacementHook({ workerUrl: 'worker.js', execution: 'worker' })
+    const worker = MockWorker.instances[0]
+    const config = { seed: 1, shape: 'circle' as const }
+
+    const single = await act(() =>
+      hook.current.computePlacement(stories.slice(0, 1), undefined, config),
+    )
+    expect(Array.from(single.placements.keys())).toEqual(['a'])
+    expect(worker.messages).toHaveLength(0)
+
+    let extended!: Promise<{ placements: Map<string, { q: number; r: number }> }>
+    await act(async () => {
+      extended = hook.current.addStories(stories.slice(1))
+    })
+
+    // Nothing was fitted to project into, so all stories are placed with the same config
+    expect(worker.requestsOfType('addStories')).toHaveLength(0)
+    const [fit] = worker.requestsOfType('computePlacement')
+    expect((fit.stories as { ids: string[] }).ids).toEqual(['a', 'b', 'c'])
+    expect(fit.config).toMatchObject(config)
+
+    await act(async () => worker.reply(resultFor(fit.requestId as number, 1)))
+    expect((await extended).placements.size).toBe(stories.length)
+    unmount()
+  })
+
+  it('misses the cache when the layout to align to has changed', async () => {
+    const cache = createMemoryPlacementCache()
+    const { hook, unmount } = renderPlacementHook({
+      workerUrl: 'worker.js',
+      execution: 'worker',
+      cache,
+    })
+    const worker = MockWorker.instances[0]
+
+    let first!: Promise<unknown>
+    await act(async () => {
+      first = hook.current.computePlacement(stories)
+    })
+    await act(async () => {
+      worker.reply(resultFor(worker.requestsOfType('computePlacement')[0].requestId as number, 1))
+      await first
+    })
+
+    // The same stories again, now aligned to the first result rather than to nothing
+    await act(async () => {
+      hook.current.computePlacement(stories).catch(() => undefined)
+    })
+    const second = worker.requestsOfType('computePlacement')[1]
+    expect(second.reference).toEqual(resultFor(0, 1).umapCoords)
+    unmount()
+  })
+
+  it('aligns the first layout to the given reference', async () => {
+    const reference = stories.map(story => ({ id: story.id, x: 1, y: 2 }))
+    const { hook, unmount } = renderPlacementHook({
+      workerUrl: 'worker.js',
+      execution: 'worker',
+      reference,
+    })
+    const worker = MockWorker.instances[0]
+
+    await act(async () => {
+      hook.current.computePlacement(stories).catch(() => undefined)
+    })
+    expect(worker.requestsOfType('computePlacement')[0].reference).toEqual(reference)
+    unmount()
+  })
+
+  it('projects the same float32 input on the main thread as the worker does', async () => {
+    // Values a float32 cannot hold exactly, so the float64 originals would place differently
+    const precise = Array.from({ length: 12 }, (_, i) => ({
+      id: `s${i}`,
+      text: `S${i}`,
+      embedding: [Math.sin(i + 0.1), Math.cos(i * 1.7 + 0.3), Math.sin(i * 2.3 + 0.7), 1 / 3],
+    }))
+    const config = { seed: 7, umap: { nEpochs: 30 } }
+    const expected = await createHiveLayout(unpackStories(packStories(precise)), { config })
+
+    const { hook, unmount } = renderPlacementHook({ execution: 'main' })
+    const result = await act(() => hook.current.computePlacement(precise, undefined, config))
+
+    expect(result.umapCoords).toEqual(expected.result.umapCoords)
+    unmount()
+  })
+
+  it('runs placements with a custom metric on the main thread, uncached', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined)
+    const cache = createMemoryPlacementCache()
+    const get = vi.spyOn(cache, 'get')
+    const { hook, unmount } = renderPlacementHook({
+      workerUrl: 'worker.js',
+      execution: 'worker',
+      cache,
+    })
+    const worker = MockWorker.instances[0]
+    const manhattan = (a: ArrayLike<number>, b: ArrayLike<number>) =>
+      Array.from(a).reduce((sum, value, i) => sum + Math.abs(value - b[i]), 0)
+
+    const result = await act(() =>
+      hook.current.computePlacement(stories, undefined, {
+        seed: 1,
+        umap: { nEpochs: 20, metric: manhattan },
+      }),
+    )
+
+    expect(result.placements.size).toBe(stories.length)
+    expect(worker.messages).toHaveLength(0)
+    expect(get).not.toHaveBeenCalled()
+    expect(warn).toHaveBeenCalledTimes(1)
+    expect(warn.mock.calls[0][0]).toMatch(/custom metric run on the main thread/)
+    unmount()
+  })
+})
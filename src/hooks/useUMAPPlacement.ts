@@ -1,18 +1,30 @@
 import { useEffect, useRef, useState, useCallback, useMemo } from 'react'
 import type {
+  ExecutionMode,
   HexCoordinate,
   UMAPNormalization,
+  PlacementCache,
   PlacementConfig,
+  PlacementProgress,
   PlacementResult,
   StoryWithEmbedding,
 } from '../types'
-
-const DEFAULT_CONFIG: PlacementConfig = {
-  canvasWidth: 900,
-  canvasHeight: 600,
-  hexRadius: 14,
-  margin: 20,
-}
+import { serializeUMAPOptions } from '../utils/distance'
+import { createAbortError, isAbortError } from '../utils/abort'
+import {
+  computeHivePlacement,
+  createHiveLayout,
+  DEFAULT_PLACEMENT_CONFIG,
+  type HiveLayout,
+} from '../engine/placement'
+import { packStories, unpackStories } from '../utils/embeddings'
+import {
+  createPlacementCacheKey,
+  deserializePlacementResult,
+  serializePlacementResult,
+} from '../utils/placementCache'
+import type { PlacementPoolClient, PlacementPort } from '../utils/placementWorkerPool'
+import { usePlacementWorkerPool } from '../components/PlacementWorkerPoolProvider'
 
 /**
  * Default worker URL fallback.
@@ -39,6 +51,8 @@ function getDefaultWorkerUrl(): string {
 
 export const DEFAULT_WORKER_URL = getDefaultWorkerUrl()
 
+export { createAbortError, isAbortError } from '../utils/abort'
+
 export interface UseUMAPPlacementOptions {
   /**
    * URL to the UMAP worker script.
@@ -52,6 +66,34 @@ export interface UseUMAPPlacementOptions {
    */
   workerUrl?: string | URL
   throwIfMissingWorker?: boolean
+  /**
+   * Storage for computed placements, e.g. `createIndexedDBPlacementCache()`.
+   * `computePlacement` fingerprints its inputs and returns a stored result without
+   * running UMAP when stories, embeddings, `norm` and config are unchanged.
+   */
+  cache?: PlacementCache
+  /**
+   * Set to false to skip creating the worker, e.g. when placements are precomputed.
+   * Defaults to true.
+   */
+  enabled?: boolean
+  /**
+   * Where placement runs: 'worker', 'main' (time-sliced on the main thread) or
+   * 'auto' (default), which uses the worker and falls back to the main thread when
+   * `Worker` is unavailable or the worker script fails to load.
+   */
+  execution?: ExecutionMode
+  /**
+   * Whether the hive is on screen. Inside a `PlacementWorkerPoolProvider`, requests of
+   * visible hives are started before those of hidden ones. Defaults to true.
+   */
+  visible?: boolean
+  /**
+   * Coordinates to align the first computed layout to, such as the `umapCoords` of
+   * precomputed placements, so the hive doesn't reshuffle when it starts computing its
+   * own layouts. Later layouts are aligned to the previous result.
+   */
+  reference?: PlacementResult['umapCoords']
 }
 
 const resolveWorkerUrl = (candidate?: string | URL): string | undefined => {
@@ -84,31 +126,172 @@ const resolveWorkerUrl = (candidate?: string | URL): string | undefined => {
   return DEFAULT_WORKER_URL
 }
 
+// Milliseconds without a worker reply before a request is cancelled
+const REQUEST_TIMEOUT_MS = 30_000
+
+interface PendingRequest {
+  resolve: (result: PlacementResult) => void
+  reject: (error: Error) => void
+  // Stop the computation and reject the caller's promise with the given reason
+  cancel: (reason: Error) => void
+  // Restart the inactivity timeout
+  armTimeout: () => void
+  // Clear the timeout and detach the abort listener
+  dispose: () => void
+  // Re-run the request on the main thread after the worker failed to load
+  runInThread: () => void
+}
+
+// A placement request, runnable in the worker or on the main thread
+interface PlacementTask {
+  message: Record<string, unknown>
+  transfer: Transferable[]
+  // Run on the main thread even when a worker is available
+  inThread?: boolean
+  runInThread: (
+    signal: AbortSignal,
+    onProgress: (progress: PlacementProgress) => void,
+  ) => Promise<PlacementResult>
+}
+
 export interface UseUMAPPlacementReturn {
+  /**
+   * Fit UMAP and place every story. Pass `norm` to map a fixed UMAP range onto the
+   * canvas; omit it to derive bounds from the projected coordinates using
+   * `config.normalization`. The bounds used are returned as `normalization`.
+   */
   computePlacement: (
     stories: StoryWithEmbedding[],
-    norm: UMAPNormalization,
+    norm?: UMAPNormalization,
     config?: Partial<PlacementConfig>,
+    signal?: AbortSignal,
   ) => Promise<PlacementResult>
+  /**
+   * Project additional stories into the model fitted by the last `computePlacement`
+   * call. Existing hex coordinates are left untouched; the result contains all placements.
+   * When the last placement came from the cache there is no fitted model, so all stories
+   * are placed again, aligned to the cached layout.
+   */
+  addStories: (stories: StoryWithEmbedding[], signal?: AbortSignal) => Promise<PlacementResult>
+  /**
+   * Remove the cached result for `cacheKey` (see `PlacementResult.cacheKey`), or every
+   * cached result when no key is given. Resolves immediately without a cache.
+   */
+  invalidateCache: (cacheKey?: string) => Promise<void>
   loading: boolean
+  // Latest progress reported by the worker while a computation is running
+  progress: PlacementProgress | null
   error: string | null
+  // Where placements are currently computed; null until decided or when disabled
+  execution: 'worker' | 'main' | null
 }
 
 export function useUMAPPlacement(options?: UseUMAPPlacementOptions): UseUMAPPlacementReturn {
-  const { workerUrl, throwIfMissingWorker = true } = options ?? {}
-  const workerRef = useRef<Worker | null>(null)
+  const {
+    workerUrl,
+    throwIfMissingWorker = true,
+    cache,
+    enabled = true,
+    execution = 'auto',
+    visible = true,
+    reference: initialReference,
+  } = options ?? {}
+  const pool = usePlacementWorkerPool()
+  // A dedicated worker, or this hook's connection to the shared pool
+  const workerRef = useRef<PlacementPort | null>(null)
+  const poolClientRef = useRef<PlacementPoolClient | null>(null)
+  // Read through a ref so visibility changes don't reconnect to the pool
+  const visibleRef = useRef(visible)
+  visibleRef.current = visible
+  // Layout fitted by the last main-thread computePlacement, used by addStories
+  const threadLayoutRef = useRef<HiveLayout | null>(null)
+  const executionRef = useRef<'worker' | 'main' | null>(null)
+  const [activeExecution, setActiveExecution] = useState<'worker' | 'main' | null>(null)
   const [loading, setLoading] = useState(false)
+  const [progress, setProgress] = useState<PlacementProgress | null>(null)
   const [error, setError] = useState<string | null>(null)
   const resolvedWorkerUrl = useMemo(() => resolveWorkerUrl(workerUrl), [workerUrl])
+  const pendingRef = useRef(new Map<number, PendingRequest>())
+  const nextRequestIdRef = useRef(0)
+  const latestRequestIdRef = useRef<number | null>(null)
+  // Read through a ref so a new adapter object doesn't recreate computePlacement
+  const cacheRef = useRef(cache)
+  cacheRef.current = cache
+  // Set when the last computePlacement fitted no model (a cache hit, or under two stories)
+  const modelStaleRef = useRef(false)
+  // Arguments of the last computePlacement, refitted with added stories after a cache hit
+  const lastInputsRef = useRef<{
+    stories: StoryWithEmbedding[]
+    norm?: UMAPNormalization
+    config: Partial<PlacementConfig>
+  } | null>(null)
+  // Coordinates of the last result, which the next computePlacement is aligned to
+  const referenceRef = useRef<PlacementResult['umapCoords']>()
+  // Read through a ref so new coordinates don't recreate computePlacement
+  const initialReferenceRef = useRef(initialReference)
+  initialReferenceRef.current = initialReference
+  // Whether the hook has warned that a custom metric overrides `execution` and `cache`
+  const customMetricWarnedRef = useRef(false)
+
+  // Forget a pending request and update loading state; returns it if it was still pending
+  const takePendingRequest = useCallback((requestId: number): PendingRequest | undefined => {
+    const pending = pendingRef.current.get(requestId)
+    if (!pending) return undefined
+
+    pending.dispose()
+    pendingRef.current.delete(requestId)
+    if (latestRequestIdRef.current === requestId) {
+      setProgress(null)
+    }
+    if (pendingRef.current.size === 0) {
+      setLoading(false)
+    }
+    return pending
+  }, [])
+
+  const selectExecution = useCallback((mode: 'worker' | 'main' | null) => {
+    executionRef.current = mode
+    setActiveExecution(mode)
+  }, [])
 
   useEffect(() => {
     if (workerRef.current) {
       workerRef.current.terminate()
       workerRef.current = null
     }
+    threadLayoutRef.current = null
+
+    const pendingRequests = pendingRef.current
+    const cancelAll = (reason: Error) => {
+      Array.from(pendingRequests.values()).forEach(pending => pending.cancel(reason))
+    }
+
+    if (!enabled) {
+      selectExecution(null)
+      setError(null)
+      return
+    }
+
+    // Main-thread runs are stopped when the options change or the component unmounts
+    const runOnMainThread = () => {
+      selectExecution('main')
+      setError(null)
+      return () => cancelAll(createAbortError('Placement was cancelled'))
+    }
+
+    if (execution === 'main') {
+      return runOnMainThread()
+    }
+
+    const workersSupported = typeof window !== 'undefined' && typeof Worker !== 'undefined'
+    if (!workersSupported && execution === 'auto') {
+      return runOnMainThread()
+    }
+
+    selectExecution(null)
 
     // Guard against SSR / non-worker environments
-    if (typeof window === 'undefined' || typeof Worker === 'undefined') {
+    if (!workersSupported) {
       const message = 'Web workers are not supported in this environment.'
       setError(message)
       setLoading(false)
@@ -120,6 +303,11 @@ export function useUMAPPlacement(options?: UseUMAPPlacementOptions): UseUMAPPlac
       return
     }
 
+    if (!resolvedWorkerUrl && execution === 'auto') {
+      console.warn('useUMAPPlacement: No worker URL available, using the main thread.')
+      return runOnMainThread()
+    }
+
     if (!resolvedWorkerUrl) {
       const message =
         'No worker URL provided. Pass workerUrl or set VITE_LIVING_HIVE_WORKER_URL in your build.'
@@ -133,15 +321,26 @@ export function useUMAPPlacement(options?: UseUMAPPlacementOptions): UseUMAPPlac
       return
     }
 
-    let worker: Worker | null = null
+    let worker: PlacementPort | null = null
 
     try {
       // resolvedWorkerUrl is already a string from resolveWorkerUrl
       // Convert to string explicitly in case it's somehow a URL object
       const workerUrlString =
         typeof resolvedWorkerUrl === 'string' ? resolvedWorkerUrl : String(resolvedWorkerUrl)
-      worker = new Worker(workerUrlString, { type: 'module' })
+      if (pool) {
+        const client = pool.connect({ workerUrl: workerUrlString, visible: visibleRef.current })
+        poolClientRef.current = client
+        worker = client
+      } else {
+        worker = new Worker(workerUrlString, { type: 'module' })
+      }
     } catch (err) {
+      if (execution === 'auto') {
+        console.warn('useUMAPPlacement: Failed to create worker, using the main thread:', err)
+        return runOnMainThread()
+      }
+
       const errorMessage = `Failed to initialize web worker: ${
         err instanceof Error ? err.message : String(err)
       }`
@@ -156,8 +355,67 @@ export function useUMAPPlacement(options?: UseUMAPPlacementOptions): UseUMAPPlac
     }
 
     const activeWorker = worker
+    // A worker that has replied once loaded fine; later errors are not load failures
+    let workerResponded = false
+
+    // Route worker replies to their request; replies for settled requests are stale
+    const handleMessage = (event: MessageEvent) => {
+      const { type, requestId } = event.data
+      const pending = pendingRef.current.get(requestId)
+
+      // The pool queued the request until now, so its timeout starts here
+      if (type === 'started') {
+        pending?.armTimeout()
+        return
+      }
+
+      workerResponded = true
+      if (!pending) return
+
+      if (type === 'progress') {
+        pending.armTimeout()
+        if (latestRequestIdRef.current === requestId) {
+          setProgress({ phase: event.data.phase, percent: event.data.percent })
+        }
+        return
+      }
+
+      takePendingRequest(requestId)
+
+      if (type === 'placementResult') {
+        pending.resolve({
+          placements: new Map(event.data.placements as Array<[string, HexCoordinate]>),
+          umapCoords: event.data.umapCoords,
+          normalization: event.data.normalization,
+          displacements: event.data.displacements
+            ? new Map(event.data.displacements as Array<[string, number]>)
+            : undefined,
+          projection: event.data.projection,
+          footprints: event.data.footprints
+            ? new Map(event.data.footprints as Array<[string, number]>)
+            : undefined,
+          binned: event.data.binned,
+        })
+      } else if (type === 'error') {
+        const errorMsg = event.data.error || 'Unknown error'
+        console.error('useUMAPPlacement: Worker error:', errorMsg)
+        setError(errorMsg)
+        pending.reject(new Error(errorMsg))
+      } else if (type === 'cancelled') {
+        pending.reject(createAbortError())
+      }
+    }
 
     const handleError = (err: ErrorEvent) => {
+      if (execution === 'auto' && !workerResponded) {
+        console.warn('useUMAPPlacement: Worker failed to load, using the main thread:', err)
+        detachWorker()
+        selectExecution('main')
+        setError(null)
+        Array.from(pendingRef.current.values()).forEach(pending => pending.runInThread())
+        return
+      }
+
       console.error('useUMAPPlacement: Worker error event:', err)
       setError('Web worker message error')
       setLoading(false)
@@ -169,40 +427,59 @@ export function useUMAPPlacement(options?: UseUMAPPlacementOptions): UseUMAPPlac
       setLoading(false)
     }
 
-    activeWorker.addEventListener('error', handleError)
-    activeWorker.addEventListener('messageerror', handleMessageError)
-
-    workerRef.current = activeWorker
-    setError(null)
-
-    return () => {
+    function detachWorker() {
+      activeWorker.removeEventListener('message', handleMessage)
       activeWorker.removeEventListener('error', handleError)
       activeWorker.removeEventListener('messageerror', handleMessageError)
       activeWorker.terminate()
       if (workerRef.current === activeWorker) {
         workerRef.current = null
       }
+      if (poolClientRef.current === activeWorker) {
+        poolClientRef.current = null
+      }
     }
-  }, [resolvedWorkerUrl, throwIfMissingWorker])
 
-  const computePlacement = useCallback(
-    async (
-      stories: StoryWithEmbedding[],
-      norm: UMAPNormalization,
-      config: Partial<PlacementConfig> = {},
-    ): Promise<PlacementResult> => {
-      if (stories.length === 0) {
-        return { placements: new Map() }
-      }
+    activeWorker.addEventListener('message', handleMessage)
+    activeWorker.addEventListener('error', handleError)
+    activeWorker.addEventListener('messageerror', handleMessageError)
 
-      if (stories.length < 2) {
-        // For single story, place it in the center
-        const placements = new Map<string, HexCoordinate>()
-        placements.set(stories[0].id, { q: 0, r: 0 })
-        return { placements }
-      }
+    workerRef.current = activeWorker
+    selectExecution('worker')
+    setError(null)
 
-      if (!workerRef.current) {
+    return () => {
+      detachWorker()
+      cancelAll(createAbortError('Placement worker was terminated'))
+    }
+  }, [
+    enabled,
+    execution,
+    pool,
+    resolvedWorkerUrl,
+    throwIfMissingWorker,
+    takePendingRequest,
+    selectExecution,
+  ])
+
+  useEffect(() => {
+    poolClientRef.current?.setVisible(visible)
+  }, [visible])
+
+  const cancelPendingRequests = useCallback(() => {
+    Array.from(pendingRef.current.values()).forEach(pending => {
+      pending.cancel(createAbortError('Superseded by a newer placement request'))
+    })
+  }, [])
+
+  // Run a request in the worker, or on the main thread when that is the active execution,
+  // and resolve with its placement result. A new request supersedes any that are still
+  // pending: they are cancelled and rejected with an AbortError.
+  const runRequest = useCallback(
+    (task: PlacementTask, signal?: AbortSignal): Promise<PlacementResult> => {
+      const inThread = executionRef.current === 'main' || Boolean(task.inThread)
+      const worker = inThread ? null : workerRef.current
+      if (!worker && !inThread) {
         const workerError = new Error('Web worker not initialized')
         setLoading(false)
         setError(workerError.message)
@@ -212,52 +489,265 @@ export function useUMAPPlacement(options?: UseUMAPPlacementOptions): UseUMAPPlac
         return Promise.reject(workerError)
       }
 
+      if (signal?.aborted) {
+        return Promise.reject(createAbortError())
+      }
+
+      cancelPendingRequests()
+
+      const requestId = ++nextRequestIdRef.current
+      latestRequestIdRef.current = requestId
+
       setLoading(true)
+      setProgress(null)
       setError(null)
 
       return new Promise((resolve, reject) => {
-        const timeout = setTimeout(() => {
-          console.error('useUMAPPlacement: Computation timeout after 30s')
-          reject(new Error('Placement computation timeout'))
-          setLoading(false)
-        }, 30_000)
+        let timeout: ReturnType<typeof setTimeout> | undefined
+        // Stops a main-thread run at its next checkpoint
+        const controller = new AbortController()
+        let runningInWorker = false
+
+        const cancel = (reason: Error) => {
+          if (!takePendingRequest(requestId)) return
+          if (runningInWorker) {
+            worker?.postMessage({ type: 'cancel', requestId })
+          }
+          controller.abort()
+          reject(reason)
+        }
+
+        const handleAbort = () => cancel(createAbortError())
+
+        // The timeout restarts whenever the worker reports progress, so it only
+        // fires when the computation stalls rather than when it is merely large.
+        const armTimeout = () => {
+          clearTimeout(timeout)
+          timeout = setTimeout(() => {
+            console.error('useUMAPPlacement: Computation timeout after 30s without progress')
+            cancel(new Error('Placement computation timeout'))
+          }, REQUEST_TIMEOUT_MS)
+        }
 
-        const handleMessage = (event: MessageEvent) => {
+        const runInThread = () => {
+          runningInWorker = false
           clearTimeout(timeout)
-          workerRef.current?.removeEventListener('message', handleMessage)
 
-          if (event.data.type === 'placementResult') {
-            setLoading(false)
-            resolve({
-              placements: new Map(event.data.placements as Array<[string, HexCoordinate]>),
-              umapCoords: event.data.umapCoords,
+          task
+            .runInThread(controller.signal, update => {
+              if (latestRequestIdRef.current === requestId && pendingRef.current.has(requestId)) {
+                setProgress(update)
+              }
             })
-          } else if (event.data.type === 'error') {
-            const errorMsg = event.data.error || 'Unknown error'
-            console.error('useUMAPPlacement: Worker error:', errorMsg)
-            setError(errorMsg)
-            setLoading(false)
-            reject(new Error(errorMsg))
+            .then(
+              result => takePendingRequest(requestId)?.resolve(result),
+              (err: unknown) => {
+                const pending = takePendingRequest(requestId)
+                if (!pending) return
+
+                if (isAbortError(err)) {
+                  pending.reject(createAbortError())
+                  return
+                }
+
+                const errorMsg = err instanceof Error ? err.message : String(err)
+                console.error('useUMAPPlacement: Placement error:', errorMsg)
+                setError(errorMsg)
+                pending.reject(err instanceof Error ? err : new Error(errorMsg))
+              },
+            )
+        }
+
+        pendingRef.current.set(requestId, {
+          resolve,
+          reject,
+          cancel,
+          armTimeout,
+          dispose: () => {
+            clearTimeout(timeout)
+            signal?.removeEventListener('abort', handleAbort)
+          },
+          runInThread,
+        })
+
+        signal?.addEventListener('abort', handleAbort)
+
+        if (worker) {
+          runningInWorker = true
+          // Pooled requests may wait in the queue; the pool's 'started' reply arms the timeout
+          if (worker !== poolClientRef.current) {
+            armTimeout()
           }
+          worker.postMessage({ ...task.message, requestId }, task.transfer)
+        } else {
+          runInThread()
         }
+      })
+    },
+    [throwIfMissingWorker, takePendingRequest, cancelPendingRequests],
+  )
 
-        workerRef.current?.addEventListener('message', handleMessage)
+  const computePlacement = useCallback(
+    async (
+      stories: StoryWithEmbedding[],
+      norm?: UMAPNormalization,
+      config: Partial<PlacementConfig> = {},
+      signal?: AbortSignal,
+    ): Promise<PlacementResult> => {
+      lastInputsRef.current = { stories, norm, config }
+      // Too few stories for UMAP; the engine places them without a worker round trip. No
+      // model is fitted, so the next addStories places every story afresh
+      if (stories.length < 2) {
+        cancelPendingRequests()
+        threadLayoutRef.current = null
+        modelStaleRef.current = true
+        referenceRef.current = undefined
+        return computeHivePlacement(stories, { config, norm })
+      }
 
-        const fullConfig = { ...DEFAULT_CONFIG, ...config }
-        workerRef.current?.postMessage({
-          type: 'computePlacement',
-          stories,
-          norm,
-          config: fullConfig,
+      const { umap, ...fullConfig } = { ...DEFAULT_PLACEMENT_CONFIG, ...config }
+      // A custom metric is a function, which can neither reach the worker nor be
+      // fingerprinted, so such placements run on the main thread and skip the cache
+      const customMetric = typeof umap?.metric === 'function'
+      if (
+        customMetric &&
+        (execution === 'worker' || cacheRef.current) &&
+        !customMetricWarnedRef.current
+      ) {
+        customMetricWarnedRef.current = true
+        console.warn(
+          'useUMAPPlacement: Placements with a custom metric run on the main thread and are ' +
+            'not cached; the execution and cache options do not apply to them.',
+        )
+      }
+      const serializedUmap = customMetric ? undefined : serializeUMAPOptions(umap)
+      // Embeddings are packed into one buffer that is transferred rather than cloned
+      const packed = packStories(stories)
+
+      // Fingerprint before the buffer is transferred and detached. The reference is part
+      // of the key, as a cached layout is only valid for the layout it was aligned to
+      const reference = referenceRef.current ?? initialReferenceRef.current
+      const placementCache = customMetric ? undefined : cacheRef.current
+      const cacheKey = placementCache
+        ? createPlacementCacheKey(packed, norm, fullConfig, serializedUmap, reference)
+        : undefined
+
+      if (placementCache && cacheKey) {
+        const cached = await placementCache.get(cacheKey).catch(err => {
+          console.warn('useUMAPPlacement: Failed to read placement cache:', err)
+          return undefined
         })
-      })
+        if (signal?.aborted) {
+          throw createAbortError()
+        }
+        if (cached) {
+          cancelPendingRequests()
+          modelStaleRef.current = true
+          const cachedResult = deserializePlacementResult(cached)
+          referenceRef.current = cachedResult.umapCoords
+          return { ...cachedResult, cacheKey, fromCache: true }
+        }
+      }
+
+      threadLayoutRef.current = null
+      const result = await runRequest(
+        {
+          message: {
+            type: 'computePlacement',
+            stories: packed,
+            norm,
+            config: fullConfig,
+            umap: serializedUmap,
+            reference,
+          },
+          transfer: [packed.embeddings.buffer],
+          inThread: customMetric,
+          // Packed afresh, as the worker may already own the first buffer
+          runInThread: async (threadSignal, onProgress) => {
+            const layout = await createHiveLayout(unpackStories(packStories(stories)), {
+              config: { ...fullConfig, umap },
+              norm,
+              reference,
+              signal: threadSignal,
+              onProgress,
+            })
+            threadLayoutRef.current = layout
+            return layout.result
+          },
+        },
+        signal,
+      )
+      modelStaleRef.current = false
+      referenceRef.current = result.umapCoords
+
+      if (placementCache && cacheKey) {
+        placementCache.set(cacheKey, serializePlacementResult(result)).catch(err => {
+          console.warn('useUMAPPlacement: Failed to write placement cache:', err)
+        })
+      }
+
+      return { ...result, cacheKey }
     },
-    [throwIfMissingWorker],
+    [runRequest, cancelPendingRequests, execution],
   )
 
+  const addStories = useCallback(
+    async (stories: StoryWithEmbedding[], signal?: AbortSignal): Promise<PlacementResult> => {
+      // A cached or too-small result comes without a fitted model to project into, so the
+      // stories are placed afresh together with the new ones (aligned to the last layout)
+      const lastInputs = lastInputsRef.current
+      if (modelStaleRef.current && lastInputs) {
+        return computePlacement(
+          [...lastInputs.stories, ...stories],
+          lastInputs.norm,
+          lastInputs.config,
+          signal,
+        )
+      }
+
+      const packed = packStories(stories)
+      const result = await runRequest(
+        {
+          message: {
+            type: 'addStories',
+            stories: packed,
+          },
+          transfer: [packed.embeddings.buffer],
+          // The model lives wherever the last placement was computed
+          inThread: threadLayoutRef.current !== null,
+          runInThread: async () => {
+            if (!threadLayoutRef.current) {
+              throw new Error('No fitted UMAP model available. Call computePlacement first.')
+            }
+            return threadLayoutRef.current.addStories(unpackStories(packStories(stories)))
+          },
+        },
+        signal,
+      )
+      referenceRef.current = result.umapCoords
+      return result
+    },
+    [runRequest, computePlacement],
+  )
+
+  const invalidateCache = useCallback(async (cacheKey?: string): Promise<void> => {
+    const placementCache = cacheRef.current
+    if (!placementCache) return
+
+    if (cacheKey === undefined) {
+      await placementCache.clear()
+    } else {
+      await placementCache.delete(cacheKey)
+    }
+  }, [])
+
   return {
     computePlacement,
+    addStories,
+    invalidateCache,
     loading,
+    progress,
     error,
+    execution: activeExecution,
   }
 }
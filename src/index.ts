@@ -1,10 +1,78 @@
 export { LivingHive } from './components/LivingHive'
-export type { BaseStory, Theme, GenerateEmbeddingsOptions, GenerateThemesOptions } from './types'
+export {
+  PlacementWorkerPoolProvider,
+  usePlacementWorkerPool,
+  type PlacementWorkerPoolProviderProps,
+} from './components/PlacementWorkerPoolProvider'
+export type {
+  BaseStory,
+  Embedding,
+  Theme,
+  GenerateEmbeddingsOptions,
+  GenerateThemesOptions,
+  PlacementPhase,
+  PlacementProgress,
+  DistanceFn,
+  UMAPMetric,
+  UMAPOptions,
+  ProjectionMethod,
+  ProjectionInfo,
+  TSNEOptions,
+  AssignmentStrategy,
+  LayoutMode,
+  HiveShape,
+  ExecutionMode,
+  LayoutTransitionOptions,
+  LevelOfDetailOptions,
+  ThemeLabelOptions,
+  StoryHighlight,
+  SearchOptions,
+  TransitionEasing,
+  HexCoordinate,
+  CubeCoordinate,
+  OffsetCoordinate,
+  HexOrientation,
+  OffsetParity,
+  PlacementResult,
+  PlacementCache,
+  CachedPlacementResult,
+} from './types'
 export {
   useUMAPPlacement,
   DEFAULT_WORKER_URL,
+  isAbortError,
   type UseUMAPPlacementOptions,
   type UseUMAPPlacementReturn,
 } from './hooks/useUMAPPlacement'
+export {
+  computeHivePlacement,
+  createHiveLayout,
+  DEFAULT_PLACEMENT_CONFIG,
+  type HiveLayout,
+  type HivePlacementOptions,
+  type PlacementStory,
+} from './engine/placement'
 export { StoryDataGenerator, assignStoriesToThemes } from './data/StoryDataGenerator'
 export { DEFAULT_COLOR_PALETTE } from './utils/colors'
+export {
+  hexToPixel,
+  pixelToHex,
+  hexCorners,
+  axialToCube,
+  cubeToAxial,
+  axialToOffset,
+  offsetToAxial,
+} from './utils/hex'
+export {
+  createIndexedDBPlacementCache,
+  createMemoryPlacementCache,
+  type IndexedDBPlacementCacheOptions,
+} from './utils/placementCache'
+export {
+  createPlacementWorkerPool,
+  type PlacementWorkerPool,
+  type PlacementWorkerPoolOptions,
+  type PlacementPoolClient,
+  type PlacementPoolConnectOptions,
+  type PlacementPort,
+} from './utils/placementWorkerPool'
@@ -1,3 +1,5 @@
+import type { ReactNode } from 'react'
+
 // Base story type - consumers can extend this with custom metadata
 export interface BaseStory {
   id: string
@@ -19,29 +21,195 @@ export interface HexCoordinate {
   r: number
 }
 
+// Cube coordinates: axial plus s = -q - r
+export interface CubeCoordinate {
+  q: number
+  r: number
+  s: number
+}
+
+// Offset coordinates: columns and rows of a rectangular grid
+export interface OffsetCoordinate {
+  col: number
+  row: number
+}
+
+// 'flat' hexes have a flat top edge and form columns; 'pointy' hexes have a top vertex
+// and form rows
+export type HexOrientation = 'flat' | 'pointy'
+
+// Which columns (flat) or rows (pointy) of an offset grid are shoved by half a hex
+export type OffsetParity = 'odd' | 'even'
+
 // Pixel coordinate system
 export interface PixelCoordinate {
   x: number
   y: number
 }
 
+// Embedding vector; Float32Array halves memory and packs into worker buffers without conversion
+export type Embedding = number[] | Float32Array
+
 // Story with embedding for UMAP computation
 export interface StoryWithEmbedding {
   id: string
   text: string
-  embedding: number[]
+  embedding: Embedding
   cluster_id?: string
+  // Relative importance; heavier stories occupy larger multi-cell footprints
+  weight?: number
 }
 
 // Color palette type
 export type ColorPalette = string[]
 
+// Distance between two embeddings. A function can't be sent to the worker or fingerprinted,
+// so placements with a custom metric run on the main thread and bypass the placement cache
+export type DistanceFn = (a: ArrayLike<number>, b: ArrayLike<number>) => number
+
+// UMAP distance metric
+export type UMAPMetric = 'cosine' | 'euclidean' | DistanceFn
+
+// UMAP hyperparameters; unset values fall back to the worker defaults
+export interface UMAPOptions {
+  // Neighborhood size; smaller favors local structure, larger favors global structure
+  nNeighbors?: number
+  minDist?: number
+  spread?: number
+  nEpochs?: number
+  // Defaults to 'euclidean'
+  metric?: UMAPMetric
+}
+
+// Dimensionality reduction that lays out stories: 'umap' (default), 'pca' for a fast,
+// deterministic linear preview, or 'tsne' for small datasets where UMAP is unstable
+export type ProjectionMethod = 'umap' | 'pca' | 'tsne'
+
+// t-SNE hyperparameters; exact t-SNE is O(n²), so it suits datasets of a few thousand stories
+export interface TSNEOptions {
+  // Effective number of neighbors; defaults to 30, capped at (story count - 1) / 3
+  perplexity?: number
+  // Defaults to 1000
+  nIterations?: number
+  // Defaults to max(story count / 12, 50)
+  learningRate?: number
+  // Defaults to 'euclidean'
+  metric?: 'cosine' | 'euclidean'
+}
+
+// Projection that produced a layout and the parameters it actually ran with
+export interface ProjectionInfo {
+  algorithm: ProjectionMethod
+  params: Record<string, number | string>
+}
+
+// How projected coordinates are scaled onto the canvas when no explicit UMAPNormalization is given
+export interface NormalizationOptions {
+  // Percentage (0-49) trimmed from each end of both axes; trimmed outliers clamp to the edge
+  clipPercentile?: number
+  // Scale both axes equally instead of stretching each to fill the canvas
+  preserveAspectRatio?: boolean
+}
+
+// How stories are matched to hex cells: 'greedy' takes the nearest free cell story by story,
+// 'optimal' minimizes the total displacement across all stories
+export type AssignmentStrategy = 'greedy' | 'optimal'
+
+// How the hive is arranged: 'semantic' places every story at its own UMAP position,
+// 'territories' gives each theme one contiguous region positioned by its UMAP centroid,
+// 'hybrid' keeps semantic positions but pulls stories toward their theme's centroid
+export type LayoutMode = 'semantic' | 'territories' | 'hybrid'
+
+// Outline the hive is confined to. Polygon points and SVG path data may use any
+// coordinates (y down); the outline is scaled to fit the canvas inside the margins.
+export type HiveShape =
+  | 'rectangle'
+  | 'circle'
+  | 'hexagon'
+  | { polygon: Array<[number, number]> }
+  | { path: string }
+
 // Placement configuration
 export interface PlacementConfig {
   canvasWidth: number
   canvasHeight: number
   hexRadius: number
   margin: number
+  // Defaults to 'flat'
+  orientation?: HexOrientation
+  // Seed for the projection's random source; omit for a different layout on every run
+  seed?: number
+  // Defaults to 'umap'
+  projection?: ProjectionMethod
+  umap?: UMAPOptions
+  tsne?: TSNEOptions
+  normalization?: NormalizationOptions
+  // Defaults to 'greedy'
+  assignment?: AssignmentStrategy
+  // Defaults to 'semantic'
+  layoutMode?: LayoutMode
+  // Align a re-layout to the previous layout's coordinates; defaults to true
+  alignment?: boolean
+  // Only cells inside this outline are used; unconstrained when omitted
+  shape?: HiveShape
+  // Rings of cells around its center given to the heaviest story; defaults to 2
+  maxFootprintRadius?: number
+  // Hex budget: with more stories than this, nearby stories share hexes. Unlimited when omitted
+  maxHexes?: number
+}
+
+// Where placement runs; 'auto' prefers a Web Worker and falls back to the main thread
+export type ExecutionMode = 'worker' | 'main' | 'auto'
+
+// Named easing curve or a function mapping linear progress (0..1) to eased progress
+export type TransitionEasing =
+  | 'linear'
+  | 'ease-in'
+  | 'ease-out'
+  | 'ease-in-out'
+  | ((t: number) => number)
+
+// How hexes animate between layouts
+export interface LayoutTransitionOptions {
+  // Milliseconds; defaults to 400
+  duration?: number
+  // Defaults to 'ease-in-out'
+  easing?: TransitionEasing
+}
+
+// Zoom thresholds between the hive's representations
+export interface LevelOfDetailOptions {
+  // Below this zoom, themes are drawn as labeled regions; defaults to 0.5
+  regionZoom?: number
+  // From this zoom on, hexes show story text and badges; defaults to 2.5
+  detailZoom?: number
+}
+
+// Size bounds of on-canvas theme labels, which grow with zoom
+export interface ThemeLabelOptions {
+  // Defaults to 11 px
+  minFontSize?: number
+  // Defaults to 22 px
+  maxFontSize?: number
+}
+
+// Stories to highlight: a set of story IDs, or a predicate over stories
+export type StoryHighlight<T extends BaseStory = BaseStory> =
+  | ReadonlySet<string>
+  | ((story: Story<T>) => boolean)
+
+// Built-in search box
+export interface SearchOptions {
+  placeholder?: string
+  /**
+   * Embed the query (e.g. with the model that embedded the stories) to also match
+   * stories by meaning. Without it, the search box matches text only.
+   */
+  embedQuery?: (query: string) => Promise<Embedding>
+  // Semantic matches added after the text matches; defaults to 10
+  semanticResults?: number
+  // Cosine similarity (-1 to 1) a story needs to match the query by meaning; defaults to 0.3
+  minSimilarity?: number
 }
 
 // Embedding mode
@@ -67,13 +235,18 @@ export interface GenerateThemesOptions {
 // Component props interface
 export interface LivingHiveProps<T extends BaseStory = BaseStory> {
   stories: Story<T>[]
-  embeddings: Map<string, number[]>
+  embeddings: Map<string, Embedding>
   themes: Theme[]
   openaiApiKey?: string
   colorPalette?: ColorPalette
   apiEndpoint?: string
   loading?: boolean
-  onHexClick?: (story: Story<T>, theme: Theme | null) => void
+  // `stories` lists every story in the clicked hex; more than one when stories are binned
+  onHexClick?: (story: Story<T>, theme: Theme | null, stories: Story<T>[]) => void
+  // Called when the pointer enters a hex, and with a null story when it leaves the hexes
+  onHexHover?: (story: Story<T> | null, theme: Theme | null, stories: Story<T>[]) => void
+  // Replaces the contents of the built-in hover tooltip; return null to show no tooltip
+  renderTooltip?: (story: Story<T>, theme: Theme | null, stories: Story<T>[]) => ReactNode
   onError?: (error: Error) => void
   onThemesChange?: (themes: Theme[]) => void
   onAssignmentsChange?: (assignments: Map<string, string>) => void
@@ -92,6 +265,103 @@ export interface LivingHiveProps<T extends BaseStory = BaseStory> {
    */
   workerUrl?: string | URL
   throwIfMissingWorker?: boolean
+  /**
+   * Where placement runs: 'worker', 'main' (the main thread, in chunks that yield to the
+   * event loop) or 'auto' (default), which falls back to the main thread when a worker
+   * cannot be started.
+   */
+  execution?: ExecutionMode
+  /**
+   * Seed for UMAP and theme clustering. When set, the same stories and embeddings
+   * always produce the same hive. Takes precedence over `config.seed`.
+   */
+  seed?: number
+  /**
+   * UMAP hyperparameters (nNeighbors, minDist, spread, nEpochs, metric).
+   * Takes precedence over `config.umap`.
+   */
+  umap?: UMAPOptions
+  /**
+   * Projection algorithm: 'umap' (default), 'pca' or 'tsne'.
+   * Takes precedence over `config.projection`.
+   */
+  projection?: ProjectionMethod
+  /**
+   * t-SNE hyperparameters, used when `projection` is 'tsne'.
+   * Takes precedence over `config.tsne`.
+   */
+  tsne?: TSNEOptions
+  /**
+   * 'semantic' (default), 'territories' for contiguous theme regions, or 'hybrid'.
+   * Takes precedence over `config.layoutMode`.
+   */
+  layoutMode?: LayoutMode
+  /**
+   * Outline the hive fills: 'circle', 'hexagon', 'rectangle', `{ polygon }` or `{ path }`
+   * (SVG path data). Takes precedence over `config.shape`.
+   */
+  shape?: HiveShape
+  /**
+   * 'flat' (default) for flat-topped hexes in columns or 'pointy' for pointy-topped hexes
+   * in rows. Takes precedence over `config.orientation`.
+   */
+  orientation?: HexOrientation
+  /**
+   * Importance of a story, e.g. its upvotes. Heavier stories claim "super hexes": a center
+   * cell plus the rings around it, up to `config.maxFootprintRadius` rings for the
+   * heaviest. Keep the function stable (e.g. with `useCallback`) so the layout is only
+   * recomputed when the weights change.
+   */
+  weight?: (story: T) => number
+  /**
+   * Hex budget. With more stories than this, nearby stories share hexes, shaded by how
+   * many they hold and colored by their most common theme. Defaults to 300 on phones,
+   * 600 on tablets and 2000 on larger screens; takes precedence over `config.maxHexes`.
+   */
+  maxHexes?: number
+  /**
+   * Persist computed layouts, e.g. `createIndexedDBPlacementCache()`. Identical stories,
+   * embeddings and config are then laid out from the cache without running UMAP.
+   */
+  placementCache?: PlacementCache
+  /**
+   * Precomputed hex coordinates (e.g. from a batch job). When set, the UMAP worker is
+   * never started and the hive renders these placements directly.
+   */
+  placements?: PlacementResult['placements']
+  // Footprint radii matching `placements`, drawn as larger hexes
+  footprints?: PlacementResult['footprints']
+  /**
+   * UMAP coordinates matching `placements`. Once the hive computes its own layouts, the
+   * first one is aligned to these so stories stay near their precomputed positions.
+   */
+  umapCoords?: PlacementResult['umapCoords']
+  /**
+   * Animate hexes from their old to their new positions when the layout changes, fading
+   * added and removed stories in and out. `false` disables it; animation is also
+   * skipped when the user prefers reduced motion. Defaults to 400 ms 'ease-in-out'.
+   */
+  transition?: boolean | LayoutTransitionOptions
+  /**
+   * Switch representations by zoom: labeled theme regions when zoomed out, hexes in
+   * between, and hexes with story text and badges when zoomed in. `false` always draws
+   * plain hexes. Defaults to `{ regionZoom: 0.5, detailZoom: 2.5 }`.
+   */
+  levelOfDetail?: boolean | LevelOfDetailOptions
+  /**
+   * Label each theme on the canvas at the centroid of its hexes. Labels grow with zoom
+   * and make way for each other; in crowded areas only the largest themes are labeled.
+   * Off by default; zoomed out below `levelOfDetail.regionZoom`, labels are always drawn.
+   */
+  themeLabels?: boolean | ThemeLabelOptions
+  // Dim every hex without a highlighted story
+  highlight?: StoryHighlight<T>
+  /**
+   * Show a search box that highlights stories containing the query and, with
+   * `embedQuery`, stories similar in meaning. Previous/next buttons pan to each match.
+   * While a query is entered, its matches replace `highlight`.
+   */
+  search?: boolean | SearchOptions
 }
 
 // UMAP normalization parameters
@@ -102,8 +372,51 @@ export interface UMAPNormalization {
   max_y: number
 }
 
+// Stage of a placement computation reported by the worker
+export type PlacementPhase = 'knn' | 'optimize' | 'placement'
+
+// Progress update emitted while a placement is being computed
+export interface PlacementProgress {
+  phase: PlacementPhase
+  // 0-100 within the current phase
+  percent: number
+}
+
 // Placement result
 export interface PlacementResult {
   placements: Map<string, HexCoordinate>
   umapCoords?: Array<{ id: string; x: number; y: number }>
+  // Bounds used to map UMAP coordinates onto the canvas
+  normalization?: UMAPNormalization
+  // Pixel distance between each story's UMAP-derived position and its hex center
+  displacements?: Map<string, number>
+  // Algorithm and parameters that produced `umapCoords`
+  projection?: ProjectionInfo
+  // Footprint radius (rings around the center hex) of each story covering more than one cell
+  footprints?: Map<string, number>
+  // True when stories outnumbered `maxHexes` and nearby stories share hexes
+  binned?: boolean
+  // Fingerprint of the inputs, set when a placement cache is configured
+  cacheKey?: string
+  // True when the result was read from the placement cache instead of computed
+  fromCache?: boolean
+}
+
+// Placement result in a structured-clone / JSON friendly shape for storage
+export interface CachedPlacementResult {
+  placements: Array<[string, HexCoordinate]>
+  umapCoords?: Array<{ id: string; x: number; y: number }>
+  normalization?: UMAPNormalization
+  displacements?: Array<[string, number]>
+  projection?: ProjectionInfo
+  footprints?: Array<[string, number]>
+  binned?: boolean
+}
+
+// Storage backend for placement results keyed by input fingerprint
+export interface PlacementCache {
+  get(key: string): Promise<CachedPlacementResult | undefined>
+  set(key: string, value: CachedPlacementResult): Promise<void>
+  delete(key: string): Promise<void>
+  clear(): Promise<void>
 }
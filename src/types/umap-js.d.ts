@@ -6,6 +6,8 @@ declare module 'umap-js' {
     spread?: number
     localConnectivity?: number
     setOpMixRatio?: number
+    nEpochs?: number
+    distanceFn?: (a: number[], b: number[]) => number
     random?: () => number
   }
 
@@ -13,6 +15,10 @@ declare module 'umap-js' {
     constructor(options?: UMAPOptions)
     fit(data: number[][]): number[][]
     fitAsync(data: number[][], epochCallback?: (epoch: number) => void): Promise<number[][]>
+    transform(data: number[][]): number[][]
+    initializeFit(data: number[][]): number
+    step(): number
+    getEmbedding(): number[][]
   }
 
   export default UMAP
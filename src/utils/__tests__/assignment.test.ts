@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest'
+
+import { solveAssignment, type AssignmentEdge } from '../assignment'
+import { createSeededRandom } from '../random'
+
+// Exhaustive minimum over all complete assignments, for small instances
+function bruteForceCost(rows: AssignmentEdge[][]): number {
+  let best = Infinity
+  const used = new Set<number>()
+  const visit = (row: number, total: number) => {
+    if (row === rows.length) {
+      best = Math.min(best, total)
+      return
+    }
+    for (const { col, cost } of rows[row]) {
+      if (used.has(col)) continue
+      used.add(col)
+      visit(row + 1, total + cost)
+      used.delete(col)
+    }
+  }
+  visit(0, 0)
+  return best
+}
+
+const totalCost = (rows: AssignmentEdge[][], assignment: number[]) =>
+  assignment.reduce((sum, col, row) => sum + rows[row].find(edge => edge.col === col)!.cost, 0)
+
+describe('solveAssignment', () => {
+  it('prefers the globally cheaper assignment over the greedy one', async () => {
+    const rows = [
+      [
+        { col: 0, cost: 1 },
+        { col: 1, cost: 2 },
+      ],
+      [
+        { col: 0, cost: 1 },
+        { col: 1, cost: 10 },
+      ],
+    ]
+    expect(await solveAssignment(rows, 2)).toEqual([1, 0])
+  })
+
+  it('matches brute force on random sparse instances', async () => {
+    const random = createSeededRandom(11)
+    for (let trial = 0; trial < 30; trial++) {
+      const rowCount = 2 + Math.floor(random() * 5)
+      const colCount = rowCount + Math.floor(random() * 3)
+      const rows: AssignmentEdge[][] = Array.from({ length: rowCount }, (_, row) => {
+        // The diagonal edge guarantees a complete assignment exists
+        const edges: AssignmentEdge[] = [{ col: row, cost: Math.round(random() * 20) }]
+        for (let col = 0; col < colCount; col++) {
+          if (col !== row && random() < 0.6) {
+            edges.push({ col, cost: Math.round(random() * 20) })
+          }
+        }
+        return edges
+      })
+
+      const assignment = await solveAssignment(rows, colCount)
+      expect(assignment).not.toBeNull()
+      expect(new Set(assignment).size).toBe(rowCount)
+      expect(totalCost(rows, assignment!)).toBe(bruteForceCost(rows))
+    }
+  })
+
+  it('returns null when no complete assignment exists', async () => {
+    const rows = [[{ col: 0, cost: 1 }], [{ col: 0, cost: 2 }]]
+    expect(await solveAssignment(rows, 1)).toBeNull()
+  })
+
+  it('awaits the checkpoint before each row and stops when it throws', async () => {
+    const rows = [[{ col: 0, cost: 1 }], [{ col: 1, cost: 1 }], [{ col: 2, cost: 1 }]]
+    let calls = 0
+    const checkpoint = async () => {
+      if (++calls === 2) throw new Error('aborted')
+    }
+
+    await expect(solveAssignment(rows, 3, checkpoint)).rejects.toThrow('aborted')
+    expect(calls).toBe(2)
+  })
+})
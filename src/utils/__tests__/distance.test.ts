@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest'
+
+import { cosineDistance, euclideanDistance, resolveMetric, serializeUMAPOptions } from '../distance'
+
+describe('distance metrics', () => {
+  it('computes cosine distance', () => {
+    expect(cosineDistance([1, 0], [1, 0])).toBeCloseTo(0)
+    expect(cosineDistance([1, 0], [0, 1])).toBeCloseTo(1)
+    expect(cosineDistance([1, 0], [1, 0, 0])).toBe(1)
+  })
+
+  it('computes euclidean distance', () => {
+    expect(euclideanDistance([0, 0], [3, 4])).toBe(5)
+  })
+
+  it('resolves built-in metrics with euclidean as the default', () => {
+    expect(resolveMetric()).toBe(euclideanDistance)
+    expect(resolveMetric('cosine')).toBe(cosineDistance)
+  })
+
+  it('passes custom metrics through unchanged', () => {
+    const manhattan = (a: ArrayLike<number>, b: ArrayLike<number>) =>
+      Array.from(a).reduce((sum, value, i) => sum + Math.abs(value - b[i]), 0)
+    expect(resolveMetric(manhattan)).toBe(manhattan)
+  })
+
+  it('serializes built-in metrics and refuses custom ones', () => {
+    expect(serializeUMAPOptions({ minDist: 0.2, metric: 'cosine' })).toEqual({
+      minDist: 0.2,
+      metric: 'cosine',
+    })
+    expect(() => serializeUMAPOptions({ metric: (a, b) => Math.abs(a[0] - b[0]) })).toThrow()
+  })
+})
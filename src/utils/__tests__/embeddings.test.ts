@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest'
+
+import { packStories, unpackStories } from '../embeddings'
+
+describe('packStories', () => {
+  it('packs mixed embedding representations into one buffer', () => {
+    const packed = packStories([
+      { id: 'a', text: 'A', embedding: [0.5, 1], cluster_id: 'theme-1' },
+      { id: 'b', text: 'B', embedding: new Float32Array([2, 4]) },
+    ])
+
+    expect(packed.ids).toEqual(['a', 'b'])
+    expect(packed.clusterIds).toEqual(['theme-1', undefined])
+    expect(packed.dimensions).toBe(2)
+    expect(Array.from(packed.embeddings)).toEqual([0.5, 1, 2, 4])
+  })
+
+  it('round-trips through unpackStories', () => {
+    const packed = packStories([
+      { id: 'a', text: 'A', embedding: [0.25, 0.75], cluster_id: 'theme-1' },
+      { id: 'b', text: 'B', embedding: [1, 2] },
+    ])
+
+    expect(unpackStories(packed)).toEqual([
+      { id: 'a', cluster_id: 'theme-1', embedding: new Float32Array([0.25, 0.75]) },
+      { id: 'b', cluster_id: undefined, embedding: new Float32Array([1, 2]) },
+    ])
+  })
+
+  it('unpacks embeddings as views into the packed buffer', () => {
+    const packed = packStories([
+      { id: 'a', text: 'A', embedding: [0.1, 0.2] },
+      { id: 'b', text: 'B', embedding: [0.3, 0.4] },
+    ])
+
+    const [, second] = unpackStories(packed)
+    expect(second.embedding.buffer).toBe(packed.embeddings.buffer)
+    expect(second.embedding[0]).toBe(packed.embeddings[2])
+  })
+
+  it('rejects embeddings with mismatched dimensions', () => {
+    expect(() =>
+      packStories([
+        { id: 'a', text: 'A', embedding: [1, 2] },
+        { id: 'b', text: 'B', embedding: [1, 2, 3] },
+      ]),
+    ).toThrowError(/expected 2/)
+  })
+})
@@ -1,14 +1,20 @@
 import { describe, expect, it, beforeEach, afterEach } from 'vitest'
 
 import {
+  axialToCube,
+  axialToOffset,
   cubeRound,
+  cubeToAxial,
   findAvailableHex,
   generateClusterHexes,
   getHexNeighbors,
   getHexRadius,
+  getHexesInRange,
   getMaxHexes,
+  hexCorners,
   hexDistance,
   hexToPixel,
+  offsetToAxial,
   pixelToHex,
 } from '../hex'
 
@@ -23,6 +29,44 @@ describe('hex utilities', () => {
     expect(hex).toEqual(origin)
   })
 
+  it('lays out pointy-top hexes in rows', () => {
+    const radius = 10
+    const right = hexToPixel({ q: 1, r: 0 }, radius, 'pointy')
+    expect(right.x).toBeCloseTo(Math.sqrt(3) * radius)
+    expect(right.y).toBeCloseTo(0)
+
+    for (const hex of getHexesInRange({ q: 0, r: 0 }, 2)) {
+      const roundTrip = pixelToHex(hexToPixel(hex, radius, 'pointy'), radius, 'pointy')
+      expect(hexDistance(roundTrip, hex)).toBe(0)
+    }
+  })
+
+  it('puts a corner on top of pointy hexes only', () => {
+    const topY = (orientation: 'flat' | 'pointy') =>
+      Math.min(...hexCorners(0, 0, 10, orientation).map(corner => corner.y))
+    expect(topY('pointy')).toBeCloseTo(-10)
+    expect(topY('flat')).toBeCloseTo(-5 * Math.sqrt(3))
+  })
+
+  it('converts between axial, cube and offset coordinates', () => {
+    expect(axialToCube({ q: 2, r: -1 })).toEqual({ q: 2, r: -1, s: -1 })
+    expect(cubeToAxial({ q: 2, r: -1, s: -1 })).toEqual({ q: 2, r: -1 })
+
+    expect(axialToOffset({ q: 1, r: 0 })).toEqual({ col: 1, row: 0 })
+    expect(axialToOffset({ q: 1, r: 0 }, 'flat', 'even')).toEqual({ col: 1, row: 1 })
+    expect(axialToOffset({ q: 0, r: 1 }, 'pointy')).toEqual({ col: 0, row: 1 })
+    expect(axialToOffset({ q: 0, r: 1 }, 'pointy', 'even')).toEqual({ col: 1, row: 1 })
+
+    for (const hex of getHexesInRange({ q: 0, r: 0 }, 3)) {
+      for (const orientation of ['flat', 'pointy'] as const) {
+        for (const parity of ['odd', 'even'] as const) {
+          const offset = axialToOffset(hex, orientation, parity)
+          expect(offsetToAxial(offset, orientation, parity)).toEqual(hex)
+        }
+      }
+    }
+  })
+
   it('rounds cube coordinates to nearest hex', () => {
     const rounded = cubeRound({ q: 1.2, r: -0.4, s: -0.8 })
     expect(rounded.q).toBe(1)
@@ -41,6 +85,13 @@ describe('hex utilities', () => {
     expect(neighbors).toContainEqual({ q: 1, r: 0 })
   })
 
+  it('lists every hex within range', () => {
+    const center = { q: 2, r: -1 }
+    const hexes = getHexesInRange(center, 2)
+    expect(hexes).toHaveLength(19)
+    expect(hexes.every(hex => hexDistance(center, hex) <= 2)).toBe(true)
+  })
+
   describe('responsive helpers', () => {
     const originalWindow = globalThis.window
     let originalInnerWidth: number | undefined
@@ -105,4 +156,17 @@ describe('hex utilities', () => {
     const keys = new Set(cluster.map(hex => `${hex.q},${hex.r}`))
     expect(keys.size).toBe(cluster.length)
   })
+
+  it('grows contiguous clusters around occupied cells', () => {
+    const occupied = new Set(['0,0', '1,0', '0,1'])
+    const cluster = generateClusterHexes({ q: 0, r: 0 }, 12, occupied)
+
+    expect(cluster).toHaveLength(12)
+    const keys = new Set(cluster.map(hex => `${hex.q},${hex.r}`))
+    cluster.forEach(hex => expect(occupied.has(`${hex.q},${hex.r}`)).toBe(false))
+    cluster.slice(1).forEach(hex => {
+      const touchesRegion = getHexNeighbors(hex).some(n => keys.has(`${n.q},${n.r}`))
+      expect(touchesRegion).toBe(true)
+    })
+  })
 })
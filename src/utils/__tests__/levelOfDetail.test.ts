@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest'
+
+import {
+  DEFAULT_DETAIL_ZOOM,
+  DEFAULT_REGION_ZOOM,
+  resolveDetailLevel,
+  wrapText,
+} from '../levelOfDetail'
+
+// One unit per character keeps widths easy to reason about
+const measure = (text: string) => text.length
+
+describe('level of detail', () => {
+  it('switches between regions, hexes and detail at the default thresholds', () => {
+    expect(resolveDetailLevel(DEFAULT_REGION_ZOOM - 0.01, undefined)).toBe('regions')
+    expect(resolveDetailLevel(1, true)).toBe('hexes')
+    expect(resolveDetailLevel(DEFAULT_DETAIL_ZOOM, undefined)).toBe('detail')
+  })
+
+  it('uses custom thresholds and can be turned off', () => {
+    expect(resolveDetailLevel(0.8, { regionZoom: 1 })).toBe('regions')
+    expect(resolveDetailLevel(1.5, { detailZoom: 1.5 })).toBe('detail')
+    expect(resolveDetailLevel(0.1, false)).toBe('hexes')
+    expect(resolveDetailLevel(5, false)).toBe('hexes')
+  })
+
+  it('wraps words onto lines no wider than the limit', () => {
+    expect(wrapText('the quick brown fox', 10, 3, measure)).toEqual(['the quick', 'brown fox'])
+  })
+
+  it('ends truncated text with an ellipsis', () => {
+    const lines = wrapText('one two three four five six seven', 9, 2, measure)
+    expect(lines).toHaveLength(2)
+    expect(lines[1].endsWith('…')).toBe(true)
+    expect(lines.every(line => measure(line) <= 9)).toBe(true)
+  })
+
+  it('cuts words that are wider than a line', () => {
+    expect(wrapText('extraordinarily', 5, 3, measure)).toEqual(['extra', 'ordin', 'arily'])
+  })
+})
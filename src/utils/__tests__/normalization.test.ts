@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest'
+
+import { computeNormalization } from '../normalization'
+
+const grid = [
+  { x: 0, y: 0 },
+  { x: 4, y: 1 },
+  { x: 2, y: 2 },
+]
+
+describe('computeNormalization', () => {
+  it('uses the bounds of the projected coordinates', () => {
+    expect(computeNormalization(grid)).toEqual({ min_x: 0, max_x: 4, min_y: 0, max_y: 2 })
+  })
+
+  it('clips outliers at the requested percentile', () => {
+    const coords = Array.from({ length: 101 }, (_, i) => ({ x: i, y: i }))
+    coords.push({ x: 10_000, y: -10_000 })
+
+    const norm = computeNormalization(coords, { clipPercentile: 5 })
+    expect(norm.max_x).toBeLessThan(110)
+    expect(norm.min_y).toBeGreaterThan(-10)
+  })
+
+  it('widens the shorter axis to preserve aspect ratio', () => {
+    const norm = computeNormalization(grid, { preserveAspectRatio: true }, 1)
+    expect(norm.max_x - norm.min_x).toBeCloseTo(norm.max_y - norm.min_y)
+    expect((norm.min_y + norm.max_y) / 2).toBeCloseTo(1)
+  })
+
+  it('pads degenerate ranges', () => {
+    const norm = computeNormalization([{ x: 3, y: 3 }])
+    expect(norm.max_x).toBeGreaterThan(norm.min_x)
+    expect(norm.max_y).toBeGreaterThan(norm.min_y)
+  })
+})
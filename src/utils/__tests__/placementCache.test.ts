@@ -0,0 +1,164 @@
+import { IDBFactory } from 'fake-indexeddb'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+
+import { packStories } from '../embeddings'
+import {
+  createIndexedDBPlacementCache,
+  createMemoryPlacementCache,
+  createPlacementCacheKey,
+  deserializePlacementResult,
+  serializePlacementResult,
+} from '../placementCache'
+
+const config = { canvasWidth: 900, canvasHeight: 600, hexRadius: 14, margin: 20 }
+
+const pack = (embedding: number[], clusterId = 'theme-1') =>
+  packStories([
+    { id: 'a', text: 'A', embedding, cluster_id: clusterId },
+    { id: 'b', text: 'B', embedding: [0.3, 0.4] },
+  ])
+
+describe('createPlacementCacheKey', () => {
+  it('is stable for identical inputs', () => {
+    const first = createPlacementCacheKey(pack([0.1, 0.2]), undefined, config, undefined)
+    const second = createPlacementCacheKey(
+      packStories([
+        { id: 'a', text: 'A', embedding: new Float32Array([0.1, 0.2]), cluster_id: 'theme-1' },
+        { id: 'b', text: 'B', embedding: [0.3, 0.4] },
+      ]),
+      undefined,
+      config,
+      undefined,
+    )
+    expect(first).toMatch(/^[0-9a-f]{16}$/)
+    expect(second).toBe(first)
+  })
+
+  it('changes when embeddings, assignments, config or UMAP options change', () => {
+    const base = createPlacementCacheKey(pack([0.1, 0.2]), undefined, config, undefined)
+    const variants = [
+      createPlacementCacheKey(pack([0.1, 0.2001]), undefined, config, undefined),
+      createPlacementCacheKey(pack([0.1, 0.2], 'theme-2'), undefined, config, undefined),
+      createPlacementCacheKey(pack([0.1, 0.2]), undefined, { ...config, seed: 1 }, undefined),
+      createPlacementCacheKey(pack([0.1, 0.2]), undefined, config, { metric: 'cosine' }),
+      createPlacementCacheKey(
+        pack([0.1, 0.2]),
+        { min_x: -1, max_x: 1, min_y: -1, max_y: 1 },
+        config,
+        undefined,
+      ),
+    ]
+    variants.forEach(key => expect(key).not.toBe(base))
+  })
+
+  it('changes with the alignment reference unless alignment is off', () => {
+    const reference = [
+      { id: 'a', x: 0.1, y: 0.2 },
+      { id: 'b', x: 0.3, y: 0.4 },
+    ]
+    const moved = [reference[0], { id: 'b', x: 0.3, y: 0.4000001 }]
+    const key = (ref: typeof reference | undefined, alignment?: boolean) =>
+      createPlacementCacheKey(pack([0.1, 0.2]), undefined, { ...config, alignment }, undefined, ref)
+
+    expect(key(reference)).toBe(key([...reference]))
+    expect(key(reference)).not.toBe(key(undefined))
+    expect(key(reference)).not.toBe(key(moved))
+    expect(key(reference, false)).toBe(key(undefined, false))
+  })
+})
+
+describe('placement result serialization', () => {
+  it('round-trips maps through the cached shape', () => {
+    const result = {
+      placements: new Map([['a', { q: 1, r: -1 }]]),
+      umapCoords: [{ id: 'a', x: 0.5, y: 0.25 }],
+      displacements: new Map([['a', 3]]),
+    }
+
+    const cached = serializePlacementResult(result)
+    expect(JSON.parse(JSON.stringify(cached))).toEqual(cached)
+    expect(deserializePlacementResult(cached)).toEqual({ ...result, normalization: undefined })
+  })
+})
+
+describe('createMemoryPlacementCache', () => {
+  it('stores, deletes and clears entries', async () => {
+    const cache = createMemoryPlacementCache()
+    const value = {
+      placements: [['a', { q: 0, r: 0 }]] as Array<[string, { q: number; r: number }]>,
+    }
+
+    await cache.set('one', value)
+    await cache.set('two', value)
+    expect(await cache.get('one')).toBe(value)
+
+    await cache.delete('one')
+    expect(await cache.get('one')).toBeUndefined()
+    expect(await cache.get('two')).toBe(value)
+
+    await cache.clear()
+    expect(await cache.get('two')).toBeUndefined()
+  })
+})
+
+describe('createIndexedDBPlacementCache', () => {
+  const entry = (q: number) => ({
+    placements: [['a', { q, r: 0 }]] as Array<[string, { q: number; r: number }]>,
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('rejects when IndexedDB is unavailable', async () => {
+    const cache = createIndexedDBPlacementCache()
+    await expect(cache.get('missing')).rejects.toThrow('IndexedDB is not available')
+  })
+
+  it('evicts the least recently used entries beyond maxEntries', async () => {
+    vi.stubGlobal('indexedDB', new IDBFactory())
+    const cache = createIndexedDBPlacementCache({ maxEntries: 2 })
+
+    await cache.set('first', entry(1))
+    await cache.set('second', entry(2))
+    expect(await cache.get('first')).toEqual(entry(1))
+    await cache.set('third', entry(3))
+
+    expect(await cache.get('second')).toBeUndefined()
+    expect(await cache.get('first')).toEqual(entry(1))
+    expect(await cache.get('third')).toEqual(entry(3))
+  })
+
+  it('creates a store for each cache sharing a database', async () => {
+    vi.stubGlobal('indexedDB', new IDBFactory())
+    const layouts = createIndexedDBPlacementCache({ storeName: 'layouts' })
+    await layouts.set('key', entry(1))
+
+    const previews = createIndexedDBPlacementCache({ storeName: 'previews' })
+    await previews.set('key', entry(2))
+
+    expect(await previews.get('key')).toEqual(entry(2))
+    expect(await layouts.get('key')).toEqual(entry(1))
+  })
+
+  it('starts over a store written before entries were evicted', async () => {
+    const factory = new IDBFactory()
+    vi.stubGlobal('indexedDB', factory)
+    const request = factory.open('living-hive', 1)
+    request.onupgradeneeded = () => request.result.createObjectStore('placements')
+    const legacy = await new Promise<IDBDatabase>(resolve => {
+      request.onsuccess = () => resolve(request.result)
+    })
+    await new Promise(resolve => {
+      const transaction = legacy.transaction('placements', 'readwrite')
+      transaction.objectStore('placements').put(entry(1), 'old')
+      transaction.oncomplete = resolve
+    })
+    legacy.close()
+
+    const cache = createIndexedDBPlacementCache()
+    expect(await cache.get('old')).toBeUndefined()
+    await cache.set('new', entry(2))
+    expect(await cache.get('new')).toEqual(entry(2))
+  })
+})
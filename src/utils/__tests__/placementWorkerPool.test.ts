@@ -0,0 +1,176 @@
+import { describe, expect, it } from 'vitest'
+
+import { createPlacementWorkerPool, type PlacementPort } from '../placementWorkerPool'
+
+type Message = Record<string, unknown>
+
+// Records posted messages and lets the test reply as the worker would
+class FakeWorker implements PlacementPort {
+  readonly posted: Message[] = []
+  terminated = false
+  private readonly listeners = new Map<string, Set<(event: never) => void>>()
+
+  postMessage(message: unknown) {
+    this.posted.push(message as Message)
+  }
+
+  addEventListener(type: string, listener: (event: never) => void) {
+    if (!this.listeners.has(type)) this.listeners.set(type, new Set())
+    this.listeners.get(type)!.add(listener)
+  }
+
+  removeEventListener(type: string, listener: (event: never) => void) {
+    this.listeners.get(type)?.delete(listener)
+  }
+
+  terminate() {
+    this.terminated = true
+  }
+
+  // Requests the worker has received, without cancels and releases
+  get requests() {
+    return this.posted.filter(message => message.type !== 'cancel' && message.type !== 'release')
+  }
+
+  reply(data: Message) {
+    const event = new MessageEvent('message', { data })
+    this.listeners.get('message')?.forEach(listener => listener(event as never))
+  }
+}
+
+function createTestPool(size: number) {
+  const workers: FakeWorker[] = []
+  const pool = createPlacementWorkerPool({
+    size,
+    workerUrl: '/workers/umap-worker.js',
+    createWorker: () => {
+      const worker = new FakeWorker()
+      workers.push(worker)
+      return worker
+    },
+  })
+  return { pool, workers }
+}
+
+// Connect a client and collect the replies it receives
+function connect(pool: ReturnType<typeof createTestPool>['pool'], visible = true) {
+  const client = pool.connect({ visible })
+  const received: Message[] = []
+  client.addEventListener('message', event => received.push(event.data))
+  return { client, received }
+}
+
+const compute = (requestId: number) => ({ type: 'computePlacement', requestId, stories: {} })
+
+describe('createPlacementWorkerPool', () => {
+  it('runs at most `size` requests at once and queues the rest', () => {
+    const { pool, workers } = createTestPool(2)
+    const clients = [connect(pool), connect(pool), connect(pool)]
+
+    clients.forEach(({ client }) => client.postMessage(compute(1)))
+    expect(workers).toHaveLength(2)
+    expect(clients.map(({ received }) => received.map(m => m.type))).toEqual([
+      ['started'],
+      ['started'],
+      [],
+    ])
+
+    const [first] = workers[0].requests
+    workers[0].reply({ type: 'placementResult', requestId: first.requestId, placements: [] })
+
+    expect(workers).toHaveLength(2)
+    expect(workers[0].requests).toHaveLength(2)
+    expect(clients[2].received.map(m => m.type)).toEqual(['started'])
+  })
+
+  it('starts queued requests of visible clients first', () => {
+    const { pool, workers } = createTestPool(1)
+    const busy = connect(pool)
+    const hidden = connect(pool, false)
+    const visible = connect(pool, false)
+
+    busy.client.postMessage(compute(1))
+    hidden.client.postMessage(compute(1))
+    visible.client.postMessage(compute(1))
+    visible.client.setVisible(true)
+
+    workers[0].reply({ type: 'cancelled', requestId: workers[0].requests[0].requestId })
+
+    expect(visible.received.map(m => m.type)).toEqual(['started'])
+    expect(hidden.received).toEqual([])
+  })
+
+  it('routes replies back under the client’s own request ID', () => {
+    const { pool, workers } = createTestPool(1)
+    const a = connect(pool)
+    const b = connect(pool)
+
+    a.client.postMessage(compute(7))
+    b.client.postMessage(compute(7))
+    const [request] = workers[0].requests
+
+    workers[0].reply({ type: 'progress', requestId: request.requestId, phase: 'knn', percent: 50 })
+    expect(a.received).toEqual([
+      { type: 'started', requestId: 7 },
+      { type: 'progress', requestId: 7, phase: 'knn', percent: 50 },
+    ])
+    expect(b.received).toEqual([])
+  })
+
+  it('sends addStories to the worker holding the client’s fitted layout', () => {
+    const { pool, workers } = createTestPool(2)
+    const a = connect(pool)
+    const b = connect(pool)
+
+    a.client.postMessage(compute(1))
+    b.client.postMessage(compute(1))
+    workers[1].reply({ type: 'placementResult', requestId: workers[1].requests[0].requestId })
+    workers[0].reply({ type: 'placementResult', requestId: workers[0].requests[0].requestId })
+
+    b.client.postMessage({ type: 'addStories', requestId: 2, stories: {} })
+    expect(workers[1].requests[1]).toMatchObject({
+      type: 'addStories',
+      clientId: workers[1].requests[0].clientId,
+    })
+    expect(workers[0].requests).toHaveLength(1)
+  })
+
+  it('cancels queued requests without involving a worker', () => {
+    const { pool, workers } = createTestPool(1)
+    const busy = connect(pool)
+    const queued = connect(pool)
+
+    busy.client.postMessage(compute(1))
+    queued.client.postMessage(compute(3))
+    queued.client.postMessage({ type: 'cancel', requestId: 3 })
+
+    expect(queued.received).toEqual([{ type: 'cancelled', requestId: 3 }])
+    expect(workers[0].posted.filter(m => m.type === 'cancel')).toEqual([])
+  })
+
+  it('releases a disconnected client’s layout and stops its running request', () => {
+    const { pool, workers } = createTestPool(1)
+    const { client } = connect(pool)
+
+    client.postMessage(compute(1))
+    const [request] = workers[0].requests
+    client.terminate()
+
+    expect(workers[0].posted).toContainEqual({ type: 'cancel', requestId: request.requestId })
+    expect(workers[0].posted).toContainEqual({ type: 'release', clientId: request.clientId })
+  })
+
+  it('cancels everything and stops its workers on terminate', () => {
+    const { pool, workers } = createTestPool(1)
+    const running = connect(pool)
+    const queued = connect(pool)
+
+    running.client.postMessage(compute(1))
+    queued.client.postMessage(compute(2))
+    pool.terminate()
+
+    expect(running.received).toContainEqual({ type: 'cancelled', requestId: 1 })
+    expect(queued.received).toEqual([{ type: 'cancelled', requestId: 2 }])
+    expect(workers[0].terminated).toBe(true)
+  })
+})
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest'
+
+import { createSeededRandom, resolveRandom } from '../random'
+
+describe('seeded random', () => {
+  it('produces the same sequence for the same seed', () => {
+    const a = createSeededRandom(42)
+    const b = createSeededRandom(42)
+    const sequenceA = Array.from({ length: 5 }, () => a())
+    const sequenceB = Array.from({ length: 5 }, () => b())
+    expect(sequenceA).toEqual(sequenceB)
+  })
+
+  it('produces different sequences for different seeds', () => {
+    const a = createSeededRandom(1)
+    const b = createSeededRandom(2)
+    expect(a()).not.toBe(b())
+  })
+
+  it('returns values in [0, 1)', () => {
+    const random = createSeededRandom(7)
+    for (let i = 0; i < 100; i++) {
+      const value = random()
+      expect(value).toBeGreaterThanOrEqual(0)
+      expect(value).toBeLessThan(1)
+    }
+  })
+
+  it('falls back to Math.random without a seed', () => {
+    expect(resolveRandom()).toBe(Math.random)
+  })
+})
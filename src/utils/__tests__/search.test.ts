@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest'
+
+import { createHighlightMatcher, findSemanticMatches, findTextMatches } from '../search'
+
+const stories = [
+  { id: 'a', text: 'The layoff email arrived on a Friday' },
+  { id: 'b', text: 'Our team celebrated the launch' },
+  { id: 'c', text: 'Nobody read the LAYOFF memo' },
+]
+
+describe('story search', () => {
+  it('matches text substrings regardless of case', () => {
+    expect(findTextMatches(stories, 'layoff')).toEqual(['a', 'c'])
+    expect(findTextMatches(stories, '  ')).toEqual([])
+  })
+
+  it('ranks semantic matches by similarity and skips excluded stories', () => {
+    const embeddings = new Map([
+      ['a', [1, 0]],
+      ['b', [0, 1]],
+      ['c', [0.9, 0.1]],
+    ])
+
+    expect(findSemanticMatches([1, 0], embeddings, 2)).toEqual(['a', 'c'])
+    expect(findSemanticMatches([1, 0], embeddings, 2, new Set(['a']), -1)).toEqual(['c', 'b'])
+  })
+
+  it('finds no semantic matches for an unrelated query', () => {
+    const embeddings = new Map([
+      ['a', [1, 0, 0]],
+      ['b', [0.5, 0.5, 0]],
+    ])
+
+    expect(findSemanticMatches([0, 0, 1], embeddings)).toEqual([])
+    // Only stories at least as similar as the threshold count
+    expect(findSemanticMatches([0.2, 0, 1], embeddings, 10, new Set(), 0.15)).toEqual(['a'])
+  })
+
+  it('builds highlight predicates from ID sets and functions', () => {
+    expect(createHighlightMatcher(undefined)).toBeNull()
+
+    const byId = createHighlightMatcher(new Set(['b']))
+    expect(stories.filter(story => byId?.(story)).map(story => story.id)).toEqual(['b'])
+
+    const byText = createHighlightMatcher((story: { id: string; text: string }) =>
+      story.text.includes('team'),
+    )
+    expect(stories.filter(story => byText?.(story)).map(story => story.id)).toEqual(['b'])
+  })
+})
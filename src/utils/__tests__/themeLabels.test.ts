@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest'
+
+import {
+  DEFAULT_MAX_LABEL_FONT_SIZE,
+  DEFAULT_MIN_LABEL_FONT_SIZE,
+  placeLabels,
+  themeLabelAnchors,
+  themeLabelFontSize,
+} from '../themeLabels'
+
+const ocean = { id: 'ocean', label: 'Ocean' }
+const forest = { id: 'forest', label: 'Forest' }
+
+describe('theme labels', () => {
+  it('anchors each theme at the story-weighted centroid of its hexes', () => {
+    const anchors = themeLabelAnchors([
+      { x: 0, y: 0, theme: ocean, count: 1 },
+      { x: 30, y: 0, theme: ocean, count: 2 },
+      { x: 100, y: 50, theme: forest, count: 1 },
+      { x: 500, y: 500, theme: null, count: 4 },
+    ])
+
+    expect(anchors).toEqual([
+      { theme: ocean, x: 20, y: 0, count: 3 },
+      { theme: forest, x: 100, y: 50, count: 1 },
+    ])
+  })
+
+  it('scales the font with zoom within its bounds', () => {
+    expect(themeLabelFontSize(0.1)).toBe(DEFAULT_MIN_LABEL_FONT_SIZE)
+    expect(themeLabelFontSize(1.2)).toBeCloseTo(16.8)
+    expect(themeLabelFontSize(5)).toBe(DEFAULT_MAX_LABEL_FONT_SIZE)
+    expect(themeLabelFontSize(5, { maxFontSize: 30 })).toBe(30)
+  })
+
+  it('keeps labels that do not collide where they are', () => {
+    const boxes = [
+      { x: 0, y: 0, width: 40, height: 16 },
+      { x: 100, y: 0, width: 40, height: 16 },
+    ]
+    expect(placeLabels(boxes)).toEqual([
+      { x: 0, y: 0 },
+      { x: 100, y: 0 },
+    ])
+  })
+
+  it('moves colliding labels out of the way and drops them when there is no room', () => {
+    const box = { x: 0, y: 0, width: 40, height: 16 }
+    const positions = placeLabels(Array.from({ length: 6 }, () => box))
+
+    expect(positions[0]).toEqual({ x: 0, y: 0 })
+    expect(positions[1]).toEqual({ x: 0, y: 20 })
+    expect(positions[2]).toEqual({ x: 0, y: -20 })
+    expect(positions.slice(3, 5).every(position => position !== null)).toBe(true)
+    expect(positions[5]).toBeNull()
+  })
+})
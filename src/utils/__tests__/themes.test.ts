@@ -33,6 +33,30 @@ describe('assignStoriesToThemes', () => {
     expect(assignments.has('story-3')).toBe(false)
   })
 
+  it('produces identical assignments for the same seed', () => {
+    const clusteredEmbeddings = new Map<string, number[]>([
+      ['story-1', [0.1, 0.2, 0.3]],
+      ['story-2', [0.9, 0.8, 0.7]],
+      ['story-3', [0.15, 0.25, 0.3]],
+      ['story-4', [0.85, 0.8, 0.75]],
+    ])
+    const clusteredStories = [...clusteredEmbeddings.keys()].map(id => ({ id, text: id }))
+
+    const first = assignStoriesToThemes(clusteredStories, clusteredEmbeddings, themes, { seed: 3 })
+    const second = assignStoriesToThemes(clusteredStories, clusteredEmbeddings, themes, { seed: 3 })
+    expect([...first.entries()]).toEqual([...second.entries()])
+  })
+
+  it('accepts Float32Array embeddings', () => {
+    const typedEmbeddings = new Map([
+      ['story-1', new Float32Array([0.1, 0.2, 0.3])],
+      ['story-2', new Float32Array([0.9, 0.8, 0.7])],
+    ])
+
+    const assignments = assignStoriesToThemes(stories, typedEmbeddings, themes, { seed: 1 })
+    expect(assignments.size).toBe(2)
+  })
+
   it('returns empty assignments when inputs are missing', () => {
     expect(assignStoriesToThemes([], embeddings, themes).size).toBe(0)
     expect(assignStoriesToThemes(stories, new Map(), themes).size).toBe(0)
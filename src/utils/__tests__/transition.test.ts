@@ -0,0 +1,67 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+
+import {
+  EASING_FUNCTIONS,
+  interpolateTransition,
+  planLayoutTransition,
+  resolveEasing,
+  resolveTransitionDuration,
+} from '../transition'
+
+function mockReducedMotion(reduce: boolean) {
+  vi.stubGlobal(
+    'matchMedia',
+    vi.fn((query: string) => ({ matches: reduce && query.includes('reduce') })),
+  )
+}
+
+describe('layout transitions', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('moves kept hexes, fades new ones in and removed ones out', () => {
+    const displayed = new Map([
+      ['kept', { x: 0, y: 0, alpha: 1 }],
+      ['removed', { x: 10, y: 10, alpha: 1 }],
+    ])
+    const targets = new Map([
+      ['kept', { x: 20, y: -20 }],
+      ['added', { x: 5, y: 5 }],
+    ])
+
+    const halfway = interpolateTransition(planLayoutTransition(displayed, targets), 0.5)
+
+    expect(halfway.get('kept')).toEqual({ x: 10, y: -10, alpha: 1 })
+    expect(halfway.get('added')).toEqual({ x: 5, y: 5, alpha: 0.5 })
+    expect(halfway.get('removed')).toEqual({ x: 10, y: 10, alpha: 0.5 })
+  })
+
+  it('continues an interrupted transition from the frames on screen', () => {
+    const displayed = new Map([['fading', { x: 3, y: 4, alpha: 0.25 }]])
+    const plan = planLayoutTransition(displayed, new Map([['fading', { x: 3, y: 4 }]]))
+
+    expect(plan.from.get('fading')).toEqual({ x: 3, y: 4, alpha: 0.25 })
+    expect(interpolateTransition(plan, 1).get('fading')).toEqual({ x: 3, y: 4, alpha: 1 })
+  })
+
+  it('resolves named and custom easings', () => {
+    Object.values(EASING_FUNCTIONS).forEach(easing => {
+      expect(easing(0)).toBe(0)
+      expect(easing(1)).toBe(1)
+    })
+    expect(resolveEasing('ease-in-out')(0.5)).toBeCloseTo(0.5)
+    const step = (t: number) => (t < 1 ? 0 : 1)
+    expect(resolveEasing(step)).toBe(step)
+  })
+
+  it('skips the animation when disabled or when reduced motion is preferred', () => {
+    mockReducedMotion(false)
+    expect(resolveTransitionDuration(undefined)).toBe(400)
+    expect(resolveTransitionDuration({ duration: 250 })).toBe(250)
+    expect(resolveTransitionDuration(false)).toBe(0)
+
+    mockReducedMotion(true)
+    expect(resolveTransitionDuration({ duration: 250 })).toBe(0)
+  })
+})
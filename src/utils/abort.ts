@@ -0,0 +1,11 @@
+// Abort errors shared by the placement engine, worker and hook
+
+// Rejection reason for requests that were aborted, superseded or orphaned by worker teardown
+export function createAbortError(message = 'Placement computation aborted'): Error {
+  const error = new Error(message)
+  error.name = 'AbortError'
+  return error
+}
+
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof Error && error.name === 'AbortError'
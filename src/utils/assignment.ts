@@ -0,0 +1,138 @@
+// Sparse min-cost assignment (shortest augmenting paths, Jonker-Volgenant style)
+
+export interface AssignmentEdge {
+  col: number
+  cost: number
+}
+
+// Binary min-heap of [priority, value] pairs
+class MinHeap {
+  private readonly items: Array<[number, number]> = []
+
+  get size(): number {
+    return this.items.length
+  }
+
+  push(priority: number, value: number) {
+    const items = this.items
+    items.push([priority, value])
+    let i = items.length - 1
+    while (i > 0) {
+      const parent = (i - 1) >> 1
+      if (items[parent][0] <= items[i][0]) break
+      ;[items[parent], items[i]] = [items[i], items[parent]]
+      i = parent
+    }
+  }
+
+  pop(): [number, number] | undefined {
+    const items = this.items
+    const top = items[0]
+    const last = items.pop()
+    if (items.length > 0 && last) {
+      items[0] = last
+      let i = 0
+      for (;;) {
+        const left = 2 * i + 1
+        const right = left + 1
+        let smallest = i
+        if (left < items.length && items[left][0] < items[smallest][0]) smallest = left
+        if (right < items.length && items[right][0] < items[smallest][0]) smallest = right
+        if (smallest === i) break
+        ;[items[smallest], items[i]] = [items[i], items[smallest]]
+        i = smallest
+      }
+    }
+    return top
+  }
+}
+
+/**
+ * Assign every row to a distinct column minimizing the summed edge cost.
+ *
+ * `rows[i]` lists the columns row i may take. Each row is added with one Dijkstra
+ * search over reduced costs that stops at the first free column, so searches stay
+ * local when candidate sets are local. Resolves to the column per row, or `null` when
+ * no complete assignment exists over the given edges. `checkpoint` is awaited before
+ * each row, so the caller can yield to the event loop or abort.
+ */
+export async function solveAssignment(
+  rows: AssignmentEdge[][],
+  colCount: number,
+  checkpoint?: () => Promise<void>,
+): Promise<number[] | null> {
+  const rowCol = new Array<number>(rows.length).fill(-1)
+  const colRow = new Array<number>(colCount).fill(-1)
+  const v = new Float64Array(colCount)
+
+  const dist = new Float64Array(colCount).fill(Infinity)
+  const pred = new Int32Array(colCount).fill(-1)
+  const scanned = new Uint8Array(colCount)
+
+  for (let start = 0; start < rows.length; start++) {
+    await checkpoint?.()
+    const touched: number[] = []
+    const finalized: number[] = []
+    const heap = new MinHeap()
+
+    const relax = (row: number, base: number) => {
+      for (const { col, cost } of rows[row]) {
+        if (scanned[col]) continue
+        const candidate = base + cost - v[col]
+        if (candidate < dist[col]) {
+          if (dist[col] === Infinity) touched.push(col)
+          dist[col] = candidate
+          pred[col] = row
+          heap.push(candidate, col)
+        }
+      }
+    }
+
+    relax(start, 0)
+
+    let endCol = -1
+    while (heap.size > 0) {
+      const [d, col] = heap.pop()!
+      if (scanned[col] || d > dist[col]) continue
+      if (colRow[col] === -1) {
+        endCol = col
+        break
+      }
+
+      scanned[col] = 1
+      finalized.push(col)
+
+      // Reduced cost of the matched edge is zero, so the row sits at the column's distance
+      const row = colRow[col]
+      const matchedCost = rows[row].find(edge => edge.col === col)!.cost
+      relax(row, d - (matchedCost - v[col]))
+    }
+
+    if (endCol === -1) {
+      return null
+    }
+
+    const delta = dist[endCol]
+    for (const col of finalized) {
+      v[col] += dist[col] - delta
+    }
+
+    // Augment along the predecessor chain
+    let col = endCol
+    while (col !== -1) {
+      const row = pred[col]
+      const previousCol = rowCol[row]
+      rowCol[row] = col
+      colRow[col] = row
+      col = row === start ? -1 : previousCol
+    }
+
+    for (const c of touched) {
+      dist[c] = Infinity
+      pred[c] = -1
+      scanned[c] = 0
+    }
+  }
+
+  return rowCol
+}
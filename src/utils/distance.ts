@@ -0,0 +1,50 @@
+// Distance metrics shared by theme clustering and the UMAP worker
+
+import type { DistanceFn, UMAPMetric, UMAPOptions } from '../types'
+
+export function cosineDistance(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  if (a.length !== b.length) return 1
+
+  let dotProduct = 0
+  let normA = 0
+  let normB = 0
+
+  for (let i = 0; i < a.length; i++) {
+    dotProduct += a[i] * b[i]
+    normA += a[i] * a[i]
+    normB += b[i] * b[i]
+  }
+
+  return 1 - dotProduct / (Math.sqrt(normA) * Math.sqrt(normB))
+}
+
+export function euclideanDistance(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  let sum = 0
+  for (let i = 0; i < a.length; i++) {
+    const diff = a[i] - b[i]
+    sum += diff * diff
+  }
+  return Math.sqrt(sum)
+}
+
+// UMAPOptions in a form that survives structured cloning into the worker. Functions
+// can't be cloned, so placements with a custom metric run on the main thread instead.
+export interface SerializedUMAPOptions extends Omit<UMAPOptions, 'metric'> {
+  metric?: 'cosine' | 'euclidean'
+}
+
+export function serializeUMAPOptions(options?: UMAPOptions): SerializedUMAPOptions | undefined {
+  if (!options) return undefined
+
+  const { metric, ...rest } = options
+  if (typeof metric === 'function') {
+    throw new Error('A custom UMAP metric cannot be sent to a worker; place on the main thread.')
+  }
+  return { ...rest, metric }
+}
+
+// Distance function for a metric name or custom function; euclidean by default
+export function resolveMetric(metric?: UMAPMetric): DistanceFn {
+  if (typeof metric === 'function') return metric
+  return metric === 'cosine' ? cosineDistance : euclideanDistance
+}
@@ -0,0 +1,56 @@
+// Packing of story embeddings into one transferable buffer for the worker
+
+import type { StoryWithEmbedding } from '../types'
+
+// Stories laid out for postMessage: metadata plus one contiguous Float32Array of embeddings
+export interface PackedStories {
+  ids: string[]
+  clusterIds: Array<string | undefined>
+  weights: Array<number | undefined>
+  dimensions: number
+  embeddings: Float32Array
+}
+
+// A story as the engine sees it after unpacking; its embedding is a view into the buffer
+export interface UnpackedStory {
+  id: string
+  cluster_id?: string
+  weight?: number
+  embedding: Float32Array
+}
+
+export function packStories(stories: StoryWithEmbedding[]): PackedStories {
+  const dimensions = stories[0]?.embedding.length ?? 0
+  const embeddings = new Float32Array(stories.length * dimensions)
+
+  stories.forEach((story, index) => {
+    if (story.embedding.length !== dimensions) {
+      throw new Error(
+        `Embedding for story ${story.id} has ${story.embedding.length} dimensions, expected ${dimensions}`,
+      )
+    }
+    embeddings.set(story.embedding, index * dimensions)
+  })
+
+  return {
+    ids: stories.map(story => story.id),
+    clusterIds: stories.map(story => story.cluster_id),
+    weights: stories.map(story => story.weight),
+    dimensions,
+    embeddings,
+  }
+}
+
+/**
+ * Stories with embeddings viewing the packed buffer, without copying. Placement on the
+ * main thread unpacks too, so both execution modes project the same float32 values.
+ */
+export function unpackStories(packed: PackedStories): UnpackedStory[] {
+  const { ids, clusterIds, weights, dimensions, embeddings } = packed
+  return ids.map((id, index) => ({
+    id,
+    cluster_id: clusterIds[index],
+    weight: weights[index],
+    embedding: embeddings.subarray(index * dimensions, (index + 1) * dimensions),
+  }))
+}
@@ -1,23 +1,101 @@
 // Hex Grid Utilities for Living Hive Visualization
 
-import type { HexCoordinate, PixelCoordinate } from '../types'
+import type {
+  CubeCoordinate,
+  HexCoordinate,
+  HexOrientation,
+  OffsetCoordinate,
+  OffsetParity,
+  PixelCoordinate,
+} from '../types'
 
 // Convert axial coordinates to pixel coordinates
-export function hexToPixel(hex: HexCoordinate, hexRadius: number): PixelCoordinate {
+export function hexToPixel(
+  hex: HexCoordinate,
+  hexRadius: number,
+  orientation: HexOrientation = 'flat',
+): PixelCoordinate {
+  if (orientation === 'pointy') {
+    const x = hexRadius * (Math.sqrt(3) * hex.q + (Math.sqrt(3) / 2) * hex.r)
+    const y = hexRadius * ((3 / 2) * hex.r)
+    return { x, y }
+  }
   const x = hexRadius * ((3 / 2) * hex.q)
   const y = hexRadius * ((Math.sqrt(3) / 2) * hex.q + Math.sqrt(3) * hex.r)
   return { x, y }
 }
 
 // Convert pixel coordinates to axial coordinates
-export function pixelToHex(pixel: PixelCoordinate, hexRadius: number): HexCoordinate {
+export function pixelToHex(
+  pixel: PixelCoordinate,
+  hexRadius: number,
+  orientation: HexOrientation = 'flat',
+): HexCoordinate {
+  if (orientation === 'pointy') {
+    const q = ((Math.sqrt(3) / 3) * pixel.x - (1 / 3) * pixel.y) / hexRadius
+    const r = ((2 / 3) * pixel.y) / hexRadius
+    return cubeRound({ q, r, s: -q - r })
+  }
   const q = ((2 / 3) * pixel.x) / hexRadius
   const r = ((-1 / 3) * pixel.x + (Math.sqrt(3) / 3) * pixel.y) / hexRadius
   return cubeRound({ q, r, s: -q - r })
 }
 
+// Corner points of a hex centered at (x, y), starting at angle 0 (flat) or -30° (pointy)
+export function hexCorners(
+  x: number,
+  y: number,
+  radius: number,
+  orientation: HexOrientation = 'flat',
+): PixelCoordinate[] {
+  const offset = orientation === 'pointy' ? -Math.PI / 6 : 0
+  return Array.from({ length: 6 }, (_, i) => {
+    const angle = offset + (Math.PI / 3) * i
+    return { x: x + radius * Math.cos(angle), y: y + radius * Math.sin(angle) }
+  })
+}
+
+export function axialToCube(hex: HexCoordinate): CubeCoordinate {
+  // `|| 0` avoids -0 when q + r is 0
+  return { q: hex.q, r: hex.r, s: -hex.q - hex.r || 0 }
+}
+
+export function cubeToAxial(cube: CubeCoordinate): HexCoordinate {
+  return { q: cube.q, r: cube.r }
+}
+
+/**
+ * Convert axial coordinates to offset (column, row) coordinates. Flat hexes shove
+ * every other column and pointy hexes every other row; `parity` picks the odd or
+ * even ones.
+ */
+export function axialToOffset(
+  hex: HexCoordinate,
+  orientation: HexOrientation = 'flat',
+  parity: OffsetParity = 'odd',
+): OffsetCoordinate {
+  const sign = parity === 'odd' ? -1 : 1
+  if (orientation === 'pointy') {
+    return { col: hex.q + (hex.r + sign * (hex.r & 1)) / 2, row: hex.r }
+  }
+  return { col: hex.q, row: hex.r + (hex.q + sign * (hex.q & 1)) / 2 }
+}
+
+// Inverse of axialToOffset for the same orientation and parity
+export function offsetToAxial(
+  offset: OffsetCoordinate,
+  orientation: HexOrientation = 'flat',
+  parity: OffsetParity = 'odd',
+): HexCoordinate {
+  const sign = parity === 'odd' ? -1 : 1
+  if (orientation === 'pointy') {
+    return { q: offset.col - (offset.row + sign * (offset.row & 1)) / 2, r: offset.row }
+  }
+  return { q: offset.col, r: offset.row - (offset.col + sign * (offset.col & 1)) / 2 }
+}
+
 // Cube rounding for fractional hex coordinates
-export function cubeRound(cube: { q: number; r: number; s: number }): HexCoordinate {
+export function cubeRound(cube: CubeCoordinate): HexCoordinate {
   let rq = Math.round(cube.q)
   let rr = Math.round(cube.r)
   let rs = Math.round(cube.s)
@@ -59,15 +137,31 @@ export function hexDistance(a: HexCoordinate, b: HexCoordinate): number {
   return (Math.abs(a.q - b.q) + Math.abs(a.q + a.r - b.q - b.r) + Math.abs(a.r - b.r)) / 2
 }
 
-// Spiral search for available hex positions
+// All hexes within the given distance of center (inclusive)
+export function getHexesInRange(center: HexCoordinate, radius: number): HexCoordinate[] {
+  const results: HexCoordinate[] = []
+  for (let dq = -radius; dq <= radius; dq++) {
+    const minDr = Math.max(-radius, -dq - radius)
+    const maxDr = Math.min(radius, -dq + radius)
+    for (let dr = minDr; dr <= maxDr; dr++) {
+      results.push({ q: center.q + dq, r: center.r + dr })
+    }
+  }
+  return results
+}
+
+// Spiral search for available hex positions; `isAllowed` rules out cells outside a mask
 export function findAvailableHex(
   center: HexCoordinate,
   occupied: Set<string>,
   maxRadius: number = 10,
+  isAllowed?: (hex: HexCoordinate) => boolean,
 ): HexCoordinate | null {
+  const isFree = (hex: HexCoordinate) =>
+    !occupied.has(`${hex.q},${hex.r}`) && (!isAllowed || isAllowed(hex))
+
   // Check center first
-  const centerKey = `${center.q},${center.r}`
-  if (!occupied.has(centerKey)) {
+  if (isFree(center)) {
     return center
   }
 
@@ -84,8 +178,7 @@ export function findAvailableHex(
     const directions = [0, 1, 2, 3, 4, 5] // Clockwise
     for (const direction of directions) {
       for (let i = 0; i < radius; i++) {
-        const key = `${current.q},${current.r}`
-        if (!occupied.has(key)) {
+        if (isFree(current)) {
           return current
         }
         current = getHexNeighbors(current)[direction]
@@ -96,51 +189,47 @@ export function findAvailableHex(
   return null
 }
 
-// Generate hex positions for a cluster
+// Generate a contiguous region of up to `size` free hexes, growing outward from center
+// and always taking the frontier cell nearest the center so regions stay compact
 export function generateClusterHexes(
   center: HexCoordinate,
   size: number,
   occupied: Set<string>,
+  isAllowed?: (hex: HexCoordinate) => boolean,
 ): HexCoordinate[] {
   const hexes: HexCoordinate[] = []
-  const newOccupied = new Set(occupied)
-
-  // Start with center
-  let currentCenter = findAvailableHex(center, newOccupied)
-  if (!currentCenter) return hexes
-
-  hexes.push(currentCenter)
-  newOccupied.add(`${currentCenter.q},${currentCenter.r}`)
-
-  // Add hexes in expanding rings
-  for (let i = 1; i < size; i++) {
-    const availableNeighbors = getHexNeighbors(currentCenter).filter(
-      hex => !newOccupied.has(`${hex.q},${hex.r}`),
-    )
-
-    if (availableNeighbors.length === 0) {
-      // Find new center for next ring
-      const newCenter = Array.from(newOccupied)
-        .map(key => {
-          const [q, r] = key.split(',').map(Number)
-          return { q, r }
-        })
-        .find(hex => {
-          const neighbors = getHexNeighbors(hex)
-          return neighbors.some(n => !newOccupied.has(`${n.q},${n.r}`))
-        })
-
-      if (newCenter) {
-        currentCenter = newCenter
-        continue
+  if (size <= 0) return hexes
+
+  const start = findAvailableHex(center, occupied, 200, isAllowed)
+  if (!start) return hexes
+
+  const origin = hexToPixel(center, 1)
+  const distanceToCenter = (hex: HexCoordinate) => {
+    const pixel = hexToPixel(hex, 1)
+    return Math.hypot(pixel.x - origin.x, pixel.y - origin.y)
+  }
+
+  const seen = new Set([`${start.q},${start.r}`])
+  const frontier = [start]
+
+  while (hexes.length < size && frontier.length > 0) {
+    let nearest = 0
+    for (let i = 1; i < frontier.length; i++) {
+      if (distanceToCenter(frontier[i]) < distanceToCenter(frontier[nearest])) {
+        nearest = i
       }
-      break
     }
 
-    // Add first available neighbor
-    const nextHex = availableNeighbors[0]
-    hexes.push(nextHex)
-    newOccupied.add(`${nextHex.q},${nextHex.r}`)
+    const [next] = frontier.splice(nearest, 1)
+    hexes.push(next)
+
+    getHexNeighbors(next).forEach(neighbor => {
+      const key = `${neighbor.q},${neighbor.r}`
+      if (!seen.has(key) && !occupied.has(key) && (!isAllowed || isAllowed(neighbor))) {
+        seen.add(key)
+        frontier.push(neighbor)
+      }
+    })
   }
 
   return hexes
@@ -0,0 +1,66 @@
+// Semantic level of detail: what the hive shows at a given zoom
+
+import type { LevelOfDetailOptions } from '../types'
+
+// Theme regions with labels, plain hexes, or hexes with story text and badges
+export type DetailLevel = 'regions' | 'hexes' | 'detail'
+
+export const DEFAULT_REGION_ZOOM = 0.5
+export const DEFAULT_DETAIL_ZOOM = 2.5
+
+/**
+ * Representation for the current zoom. With level of detail turned off the hive always
+ * draws plain hexes.
+ */
+export function resolveDetailLevel(
+  zoom: number,
+  levelOfDetail: boolean | LevelOfDetailOptions | undefined,
+): DetailLevel {
+  if (levelOfDetail === false) return 'hexes'
+  const options = typeof levelOfDetail === 'object' ? levelOfDetail : {}
+  if (zoom < (options.regionZoom ?? DEFAULT_REGION_ZOOM)) return 'regions'
+  if (zoom >= (options.detailZoom ?? DEFAULT_DETAIL_ZOOM)) return 'detail'
+  return 'hexes'
+}
+
+/**
+ * Break `text` into at most `maxLines` lines no wider than `maxWidth`, ending the last
+ * line with an ellipsis when text is cut off. `measure` returns the drawn width of a
+ * string, e.g. `text => ctx.measureText(text).width`.
+ */
+export function wrapText(
+  text: string,
+  maxWidth: number,
+  maxLines: number,
+  measure: (text: string) => number,
+): string[] {
+  const words = text.split(/\s+/).filter(Boolean)
+  const lines: string[] = []
+  let line = ''
+  let index = 0
+
+  while (index < words.length && lines.length < maxLines) {
+    const candidate = line ? `${line} ${words[index]}` : words[index]
+    if (measure(candidate) <= maxWidth) {
+      line = candidate
+      index++
+    } else if (line) {
+      lines.push(line)
+      line = ''
+    } else {
+      // A single word wider than the line is cut to fit
+      let cut = words[index]
+      while (cut.length > 1 && measure(cut) > maxWidth) cut = cut.slice(0, -1)
+      lines.push(cut)
+      words[index] = words[index].slice(cut.length)
+    }
+  }
+  if (line && lines.length < maxLines) lines.push(line)
+
+  if (index < words.length && lines.length > 0) {
+    let last = lines[lines.length - 1]
+    while (last.length > 0 && measure(`${last}…`) > maxWidth) last = last.slice(0, -1)
+    lines[lines.length - 1] = `${last.trimEnd()}…`
+  }
+  return lines
+}
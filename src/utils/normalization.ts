@@ -0,0 +1,61 @@
+// Normalization of projected UMAP coordinates into the unit square used for placement
+
+import type { NormalizationOptions, UMAPNormalization } from '../types'
+
+// Value at the given percentile (0-100) of an ascending-sorted array
+function percentile(sorted: number[], p: number): number {
+  const index = (p / 100) * (sorted.length - 1)
+  const lower = Math.floor(index)
+  const upper = Math.ceil(index)
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (index - lower)
+}
+
+// Pad a degenerate range so normalization never divides by zero
+function ensureRange(min: number, max: number): [number, number] {
+  if (max - min > Number.EPSILON) return [min, max]
+  return [min - 0.5, max + 0.5]
+}
+
+/**
+ * Derive normalization bounds from projected coordinates.
+ *
+ * `clipPercentile` trims that percentage from both ends of each axis so outliers
+ * clamp to the edge instead of squeezing everything else into the middle.
+ * With `preserveAspectRatio`, the shorter side is widened so both axes share one
+ * scale once mapped onto a `targetAspectRatio` (width / height) canvas.
+ */
+export function computeNormalization(
+  coords: Array<{ x: number; y: number }>,
+  options: NormalizationOptions = {},
+  targetAspectRatio = 1,
+): UMAPNormalization {
+  if (coords.length === 0) {
+    return { min_x: -1, max_x: 1, min_y: -1, max_y: 1 }
+  }
+
+  const { clipPercentile = 0, preserveAspectRatio = false } = options
+  const clip = Math.max(0, Math.min(49, clipPercentile))
+
+  const xs = coords.map(c => c.x).sort((a, b) => a - b)
+  const ys = coords.map(c => c.y).sort((a, b) => a - b)
+
+  let [minX, maxX] = ensureRange(percentile(xs, clip), percentile(xs, 100 - clip))
+  let [minY, maxY] = ensureRange(percentile(ys, clip), percentile(ys, 100 - clip))
+
+  if (preserveAspectRatio && targetAspectRatio > 0) {
+    const width = maxX - minX
+    const height = maxY - minY
+
+    if (width / height < targetAspectRatio) {
+      const padding = (height * targetAspectRatio - width) / 2
+      minX -= padding
+      maxX += padding
+    } else {
+      const padding = (width / targetAspectRatio - height) / 2
+      minY -= padding
+      maxY += padding
+    }
+  }
+
+  return { min_x: minX, max_x: maxX, min_y: minY, max_y: maxY }
+}
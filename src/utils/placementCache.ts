@@ -0,0 +1,274 @@
+// Persistent caching of placement results keyed by a fingerprint of their inputs
+
+import type { ProjectedPoint } from '../engine/alignment'
+import type {
+  CachedPlacementResult,
+  PlacementCache,
+  PlacementConfig,
+  PlacementResult,
+  UMAPNormalization,
+} from '../types'
+import type { SerializedUMAPOptions } from './distance'
+import type { PackedStories } from './embeddings'
+
+// Bump when the worker's placement output changes so stale entries are never served
+const CACHE_FORMAT_VERSION = 4
+
+// Incremental 64-bit hash (two 32-bit lanes, cyrb53-style mixing) over 32-bit words
+class Fingerprint {
+  private h1 = 0xdeadbeef
+  private h2 = 0x41c6ce57
+  private float = new Float64Array(1)
+  private floatBits = new Uint32Array(this.float.buffer)
+
+  word(value: number) {
+    this.h1 = Math.imul(this.h1 ^ value, 2654435761)
+    this.h2 = Math.imul(this.h2 ^ value, 1597334677)
+  }
+
+  // Hashes the exact float64 bits, so values that print alike still differ
+  number(value: number) {
+    this.float[0] = value
+    this.word(this.floatBits[0])
+    this.word(this.floatBits[1])
+  }
+
+  string(value: string) {
+    for (let i = 0; i < value.length; i++) {
+      this.word(value.charCodeAt(i))
+    }
+    this.word(value.length)
+  }
+
+  digest(): string {
+    let h1 = this.h1
+    let h2 = this.h2
+    h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909)
+    h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909)
+    return (h2 >>> 0).toString(16).padStart(8, '0') + (h1 >>> 0).toString(16).padStart(8, '0')
+  }
+}
+
+/**
+ * Fingerprint everything that determines a placement: story IDs, theme assignments,
+ * the raw float32 embedding bits, the normalization bounds, the full config and, unless
+ * alignment is off, the reference layout the projection is rotated onto.
+ */
+export function createPlacementCacheKey(
+  stories: PackedStories,
+  norm: UMAPNormalization | undefined,
+  config: Omit<PlacementConfig, 'umap'>,
+  umap: SerializedUMAPOptions | undefined,
+  reference?: ProjectedPoint[],
+): string {
+  const fingerprint = new Fingerprint()
+  fingerprint.word(CACHE_FORMAT_VERSION)
+
+  stories.ids.forEach((id, index) => {
+    fingerprint.string(id)
+    fingerprint.string(stories.clusterIds[index] ?? '')
+    fingerprint.string(String(stories.weights[index] ?? ''))
+  })
+
+  fingerprint.word(stories.dimensions)
+  const { buffer, byteOffset, length } = stories.embeddings
+  const bits = new Uint32Array(buffer, byteOffset, length)
+  for (let i = 0; i < bits.length; i++) {
+    fingerprint.word(bits[i])
+  }
+
+  fingerprint.string(JSON.stringify({ norm: norm ?? null, config, umap: umap ?? null }))
+
+  const alignedTo = config.alignment === false ? [] : (reference ?? [])
+  fingerprint.word(alignedTo.length)
+  alignedTo.forEach(point => {
+    fingerprint.string(point.id)
+    fingerprint.number(point.x)
+    fingerprint.number(point.y)
+  })
+  return fingerprint.digest()
+}
+
+export function serializePlacementResult(result: PlacementResult): CachedPlacementResult {
+  return {
+    placements: Array.from(result.placements),
+    umapCoords: result.umapCoords,
+    normalization: result.normalization,
+    displacements: result.displacements ? Array.from(result.displacements) : undefined,
+    projection: result.projection,
+    footprints: result.footprints ? Array.from(result.footprints) : undefined,
+    binned: result.binned,
+  }
+}
+
+export function deserializePlacementResult(cached: CachedPlacementResult): PlacementResult {
+  return {
+    placements: new Map(cached.placements),
+    umapCoords: cached.umapCoords,
+    normalization: cached.normalization,
+    displacements: cached.displacements ? new Map(cached.displacements) : undefined,
+    projection: cached.projection,
+    footprints: cached.footprints ? new Map(cached.footprints) : undefined,
+    binned: cached.binned,
+  }
+}
+
+// In-memory cache, useful for tests or to share results between components in one session
+export function createMemoryPlacementCache(): PlacementCache {
+  const entries = new Map<string, CachedPlacementResult>()
+
+  return {
+    get: async key => entries.get(key),
+    set: async (key, value) => {
+      entries.set(key, value)
+    },
+    delete: async key => {
+      entries.delete(key)
+    },
+    clear: async () => {
+      entries.clear()
+    },
+  }
+}
+
+export interface IndexedDBPlacementCacheOptions {
+  // Defaults to 'living-hive'
+  databaseName?: string
+  // Defaults to 'placements'
+  storeName?: string
+  // Most results kept; beyond it the least recently used are evicted. Defaults to 50
+  maxEntries?: number
+}
+
+const DEFAULT_MAX_CACHE_ENTRIES = 50
+
+// Index over when each entry was last read or written, for evicting the oldest
+const USED_AT_INDEX = 'usedAt'
+
+interface StoredPlacement {
+  result: CachedPlacementResult
+  usedAt: number
+}
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+
+/**
+ * Cache backed by an IndexedDB object store; the database is opened on first use. Several
+ * caches may share a database with different stores: a missing store is created by
+ * upgrading the database, which closes the other caches' connections until their next use.
+ */
+export function createIndexedDBPlacementCache(
+  options: IndexedDBPlacementCacheOptions = {},
+): PlacementCache {
+  const {
+    databaseName = 'living-hive',
+    storeName = 'placements',
+    maxEntries = DEFAULT_MAX_CACHE_ENTRIES,
+  } = options
+  let database: Promise<IDBDatabase> | null = null
+
+  // Strictly increasing, so entries used within the same millisecond still have an order
+  let lastUse = 0
+  const nextUse = () => (lastUse = Math.max(Date.now(), lastUse + 1))
+
+  const hasStore = (db: IDBDatabase) =>
+    db.objectStoreNames.contains(storeName) &&
+    db.transaction(storeName).objectStore(storeName).indexNames.contains(USED_AT_INDEX)
+
+  const connect = async (version?: number): Promise<IDBDatabase> => {
+    const request = indexedDB.open(databaseName, version)
+    request.onupgradeneeded = () => {
+      const db = request.result
+      if (db.objectStoreNames.contains(storeName)) {
+        if (request.transaction!.objectStore(storeName).indexNames.contains(USED_AT_INDEX)) return
+        // Entries stored before eviction existed can't be indexed, so the store starts over
+        db.deleteObjectStore(storeName)
+      }
+      db.createObjectStore(storeName).createIndex(USED_AT_INDEX, 'usedAt')
+    }
+
+    const db = await requestToPromise(request)
+    // Let a cache with another store upgrade the database; this one reconnects on next use
+    db.onversionchange = () => {
+      db.close()
+      database = null
+    }
+    if (hasStore(db)) return db
+
+    const upgrade = db.version + 1
+    db.close()
+    return connect(upgrade)
+  }
+
+  const open = (): Promise<IDBDatabase> => {
+    if (!database) {
+      if (typeof indexedDB === 'undefined') {
+        return Promise.reject(new Error('IndexedDB is not available in this environment.'))
+      }
+      database = connect().catch(error => {
+        database = null
+        throw error
+      })
+    }
+    return database
+  }
+
+  // Runs `run` in one transaction and resolves with what it reported once that commits
+  const transact = async <T>(
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore, report: (value: T) => void) => void,
+  ): Promise<T | undefined> => {
+    const db = await open()
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(storeName, mode)
+      let reported: T | undefined
+      run(transaction.objectStore(storeName), value => {
+        reported = value
+      })
+      transaction.oncomplete = () => resolve(reported)
+      transaction.onerror = () => reject(transaction.error)
+      transaction.onabort = () => reject(transaction.error)
+    })
+  }
+
+  return {
+    get: key =>
+      transact<CachedPlacementResult>('readwrite', (store, report) => {
+        const request = store.get(key)
+        request.onsuccess = () => {
+          const stored = request.result as StoredPlacement | undefined
+          if (!stored) return
+          report(stored.result)
+          store.put({ ...stored, usedAt: nextUse() }, key)
+        }
+      }),
+    set: async (key, value) => {
+      await transact('readwrite', store => {
+        const stored: StoredPlacement = { result: value, usedAt: nextUse() }
+        store.put(stored, key)
+
+        const count = store.count()
+        count.onsuccess = () => {
+          let excess = count.result - maxEntries
+          if (excess <= 0) return
+          const cursor = store.index(USED_AT_INDEX).openKeyCursor()
+          cursor.onsuccess = () => {
+            if (!cursor.result || excess-- <= 0) return
+            store.delete(cursor.result.primaryKey)
+            cursor.result.continue()
+          }
+        }
+      })
+    },
+    delete: async key => {
+      await transact('readwrite', store => store.delete(key))
+    },
+    clear: async () => {
+      await transact('readwrite', store => store.clear())
+    },
+  }
+}
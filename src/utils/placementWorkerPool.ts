@@ -0,0 +1,342 @@
+// Placement worker pool shared by several hives: a fixed number of workers, a queue
+// that serves visible hives first, and per-hive routing of requests and replies
+
+// The part of the Worker interface the placement hook talks to. Pool clients implement
+// it, so the hook treats a pooled connection exactly like a dedicated worker.
+export interface PlacementPort {
+  postMessage(message: unknown, transfer?: Transferable[]): void
+  addEventListener(type: 'message' | 'messageerror', listener: (event: MessageEvent) => void): void
+  addEventListener(type: 'error', listener: (event: ErrorEvent) => void): void
+  removeEventListener(
+    type: 'message' | 'messageerror',
+    listener: (event: MessageEvent) => void,
+  ): void
+  removeEventListener(type: 'error', listener: (event: ErrorEvent) => void): void
+  terminate(): void
+}
+
+export interface PlacementWorkerPoolOptions {
+  // Number of workers; defaults to one less than the CPU count, between 1 and 4
+  size?: number
+  // Worker script; defaults to the URL of the first client that connects
+  workerUrl?: string | URL
+  // Creates a worker for a slot; defaults to `new Worker(url, { type: 'module' })`
+  createWorker?: (workerUrl: string) => PlacementPort
+}
+
+export interface PlacementPoolConnectOptions {
+  // Used when the pool has no workerUrl of its own
+  workerUrl?: string
+  // Requests from visible clients are started before those of hidden ones
+  visible?: boolean
+}
+
+export interface PlacementPoolClient extends PlacementPort {
+  setVisible(visible: boolean): void
+}
+
+export interface PlacementWorkerPool {
+  readonly size: number
+  connect(options?: PlacementPoolConnectOptions): PlacementPoolClient
+  // Cancel all queued and running requests and stop every worker; workers are
+  // created again when the next request arrives
+  terminate(): void
+}
+
+// Reply types after which a worker is free for the next request
+const TERMINAL_REPLIES = new Set(['placementResult', 'error', 'cancelled'])
+
+const MAX_DEFAULT_POOL_SIZE = 4
+
+function defaultPoolSize(): number {
+  const cores = typeof navigator !== 'undefined' ? (navigator.hardwareConcurrency ?? 2) : 2
+  return Math.max(1, Math.min(MAX_DEFAULT_POOL_SIZE, cores - 1))
+}
+
+interface PoolTask {
+  client: PoolClient
+  // ID the client assigned, restored on every reply
+  clientRequestId: number
+  // ID unique across the pool, used on the wire to the worker
+  poolRequestId: number
+  message: Record<string, unknown>
+  transfer: Transferable[]
+  // Slot that must run the task, e.g. the one holding the client's fitted layout
+  slotIndex?: number
+  // Set when the client disconnected while the task was running; replies are dropped
+  orphaned: boolean
+}
+
+interface WorkerSlot {
+  worker: PlacementPort | null
+  task: PoolTask | null
+}
+
+class PoolClient implements PlacementPoolClient {
+  // Slot holding this client's fitted layout, which addStories must run on
+  layoutSlot: number | null = null
+  private readonly messageListeners = new Set<(event: MessageEvent) => void>()
+  private readonly errorListeners = new Set<(event: ErrorEvent) => void>()
+
+  constructor(
+    readonly id: number,
+    public visible: boolean,
+    private readonly scheduler: PoolScheduler,
+  ) {}
+
+  postMessage(message: unknown, transfer: Transferable[] = []) {
+    this.scheduler.submit(this, message as Record<string, unknown>, transfer)
+  }
+
+  addEventListener(type: 'message' | 'messageerror', listener: (event: MessageEvent) => void): void
+  addEventListener(type: 'error', listener: (event: ErrorEvent) => void): void
+  addEventListener(
+    type: 'message' | 'messageerror' | 'error',
+    listener: ((event: MessageEvent) => void) | ((event: ErrorEvent) => void),
+  ) {
+    if (type === 'message') this.messageListeners.add(listener as (event: MessageEvent) => void)
+    if (type === 'error') this.errorListeners.add(listener as (event: ErrorEvent) => void)
+  }
+
+  removeEventListener(
+    type: 'message' | 'messageerror',
+    listener: (event: MessageEvent) => void,
+  ): void
+  removeEventListener(type: 'error', listener: (event: ErrorEvent) => void): void
+  removeEventListener(
+    type: 'message' | 'messageerror' | 'error',
+    listener: ((event: MessageEvent) => void) | ((event: ErrorEvent) => void),
+  ) {
+    if (type === 'message') this.messageListeners.delete(listener as (event: MessageEvent) => void)
+    if (type === 'error') this.errorListeners.delete(listener as (event: ErrorEvent) => void)
+  }
+
+  setVisible(visible: boolean) {
+    this.visible = visible
+  }
+
+  terminate() {
+    this.messageListeners.clear()
+    this.errorListeners.clear()
+    this.scheduler.disconnect(this)
+  }
+
+  emitMessage(data: Record<string, unknown>) {
+    const event = new MessageEvent('message', { data })
+    this.messageListeners.forEach(listener => listener(event))
+  }
+
+  emitError(event: ErrorEvent) {
+    this.errorListeners.forEach(listener => listener(event))
+  }
+}
+
+class PoolScheduler {
+  private readonly slots: WorkerSlot[]
+  private queue: PoolTask[] = []
+  private readonly clients = new Set<PoolClient>()
+  private nextClientId = 1
+  private nextPoolRequestId = 1
+  private workerUrl: string | undefined
+
+  constructor(
+    size: number,
+    workerUrl: string | undefined,
+    private readonly createWorker: (workerUrl: string) => PlacementPort,
+  ) {
+    this.slots = Array.from({ length: size }, () => ({ worker: null, task: null }))
+    this.workerUrl = workerUrl
+  }
+
+  get size() {
+    return this.slots.length
+  }
+
+  connect(options: PlacementPoolConnectOptions): PoolClient {
+    this.workerUrl ??= options.workerUrl
+    const client = new PoolClient(this.nextClientId++, options.visible ?? true, this)
+    this.clients.add(client)
+    return client
+  }
+
+  submit(client: PoolClient, message: Record<string, unknown>, transfer: Transferable[]) {
+    if (!this.clients.has(client)) return
+
+    const clientRequestId = message.requestId as number
+
+    if (message.type === 'cancel') {
+      this.cancel(client, clientRequestId)
+      return
+    }
+
+    const slotIndex = message.type === 'addStories' ? client.layoutSlot : null
+    this.queue.push({
+      client,
+      clientRequestId,
+      poolRequestId: this.nextPoolRequestId++,
+      message: { ...message, clientId: client.id },
+      transfer,
+      slotIndex: slotIndex ?? undefined,
+      orphaned: false,
+    })
+    this.dispatch()
+  }
+
+  disconnect(client: PoolClient) {
+    if (!this.clients.delete(client)) return
+
+    this.queue = this.queue.filter(task => task.client !== client)
+    this.slots.forEach(slot => {
+      if (slot.task?.client === client) {
+        slot.task.orphaned = true
+        slot.worker?.postMessage({ type: 'cancel', requestId: slot.task.poolRequestId })
+      }
+    })
+    this.release(client)
+    this.dispatch()
+  }
+
+  terminate() {
+    this.queue.forEach(task => this.reply(task, { type: 'cancelled' }))
+    this.queue = []
+    this.slots.forEach((slot, index) => {
+      if (slot.task) this.reply(slot.task, { type: 'cancelled' })
+      this.resetSlot(index)
+    })
+  }
+
+  private cancel(client: PoolClient, clientRequestId: number) {
+    const queued = this.queue.find(
+      task => task.client === client && task.clientRequestId === clientRequestId,
+    )
+    if (queued) {
+      this.queue = this.queue.filter(task => task !== queued)
+      this.reply(queued, { type: 'cancelled' })
+      return
+    }
+
+    const slot = this.slots.find(
+      slot => slot.task?.client === client && slot.task.clientRequestId === clientRequestId,
+    )
+    slot?.worker?.postMessage({ type: 'cancel', requestId: slot.task!.poolRequestId })
+  }
+
+  // Free the memory a client's fitted layout holds in its worker
+  private release(client: PoolClient) {
+    if (client.layoutSlot === null) return
+    this.slots[client.layoutSlot].worker?.postMessage({ type: 'release', clientId: client.id })
+    client.layoutSlot = null
+  }
+
+  // Start queued tasks on idle slots, visible clients first, otherwise in arrival order
+  private dispatch() {
+    this.slots.forEach((slot, index) => {
+      if (slot.task) return
+
+      const candidates = this.queue.filter(
+        task => task.slotIndex === undefined || task.slotIndex === index,
+      )
+      const next = candidates.find(task => task.client.visible) ?? candidates[0]
+      if (next) this.start(next, index)
+    })
+  }
+
+  private start(task: PoolTask, slotIndex: number) {
+    const slot = this.slots[slotIndex]
+    this.queue = this.queue.filter(queued => queued !== task)
+
+    if (!slot.worker) {
+      try {
+        slot.worker = this.spawn(slotIndex)
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err)
+        task.client.emitError(new ErrorEvent('error', { message, error: err }))
+        this.dispatch()
+        return
+      }
+    }
+
+    if (task.message.type === 'computePlacement') {
+      if (task.client.layoutSlot !== slotIndex) this.release(task.client)
+      task.client.layoutSlot = slotIndex
+    }
+
+    slot.task = task
+    // Lets the client start its timeout only once the request is actually running
+    this.reply(task, { type: 'started' })
+    slot.worker.postMessage({ ...task.message, requestId: task.poolRequestId }, task.transfer)
+  }
+
+  private spawn(slotIndex: number): PlacementPort {
+    if (!this.workerUrl) {
+      throw new Error('No worker URL available for the placement worker pool')
+    }
+
+    const worker = this.createWorker(this.workerUrl)
+
+    worker.addEventListener('message', (event: MessageEvent) => {
+      const slot = this.slots[slotIndex]
+      const task = slot.task
+      if (slot.worker !== worker || !task || event.data?.requestId !== task.poolRequestId) return
+
+      if (TERMINAL_REPLIES.has(event.data.type)) {
+        slot.task = null
+        if (event.data.type !== 'placementResult' && task.message.type === 'computePlacement') {
+          task.client.layoutSlot = null
+        }
+      }
+      if (!task.orphaned) this.reply(task, event.data)
+      if (!slot.task) this.dispatch()
+    })
+
+    // A crashed or unloadable worker is replaced on the next request; the layouts it
+    // held are lost, and the client of the running request sees the error
+    worker.addEventListener('error', (event: ErrorEvent) => {
+      const slot = this.slots[slotIndex]
+      if (slot.worker !== worker) return
+
+      const task = slot.task
+      this.resetSlot(slotIndex)
+      if (task && !task.orphaned) task.client.emitError(event)
+      this.dispatch()
+    })
+
+    return worker
+  }
+
+  private resetSlot(slotIndex: number) {
+    const slot = this.slots[slotIndex]
+    slot.worker?.terminate()
+    slot.worker = null
+    slot.task = null
+    this.clients.forEach(client => {
+      if (client.layoutSlot === slotIndex) client.layoutSlot = null
+    })
+  }
+
+  private reply(task: PoolTask, data: Record<string, unknown>) {
+    task.client.emitMessage({ ...data, requestId: task.clientRequestId })
+  }
+}
+
+/**
+ * Create a pool of placement workers to share between hives, so a page with several
+ * hives loads umap-js a bounded number of times. Workers start on first use.
+ */
+export function createPlacementWorkerPool(
+  options: PlacementWorkerPoolOptions = {},
+): PlacementWorkerPool {
+  const size = Math.max(1, Math.floor(options.size ?? defaultPoolSize()))
+  const workerUrl = options.workerUrl === undefined ? undefined : String(options.workerUrl)
+  const scheduler = new PoolScheduler(
+    size,
+    workerUrl,
+    options.createWorker ?? (url => new Worker(url, { type: 'module' })),
+  )
+
+  return {
+    size,
+    connect: (connectOptions = {}) => scheduler.connect(connectOptions),
+    terminate: () => scheduler.terminate(),
+  }
+}
@@ -0,0 +1,21 @@
+// Seeded pseudo-random number generation for reproducible layouts
+
+export type RandomFn = () => number
+
+// Mulberry32: small, fast 32-bit PRNG returning floats in [0, 1)
+export function createSeededRandom(seed: number): RandomFn {
+  let state = seed >>> 0
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+// Resolve a random source: seeded when a seed is given, Math.random otherwise
+export function resolveRandom(seed?: number): RandomFn {
+  return seed === undefined ? Math.random : createSeededRandom(seed)
+}
@@ -0,0 +1,51 @@
+// Finding stories in the hive: highlight filters, text search and semantic search
+
+import type { BaseStory, Embedding, StoryHighlight } from '../types'
+import { cosineDistance } from './distance'
+
+// Most semantic matches added to a search by default
+export const DEFAULT_SEMANTIC_RESULTS = 10
+
+// Cosine similarity a story needs to count as a semantic match by default. Unrelated
+// texts score well below it with common embedding models such as text-embedding-3
+export const DEFAULT_MIN_SEMANTIC_SIMILARITY = 0.3
+
+// Predicate for a `highlight` prop; null when nothing is highlighted
+export function createHighlightMatcher<T extends BaseStory>(
+  highlight: StoryHighlight<T> | undefined,
+): ((story: T) => boolean) | null {
+  if (!highlight) return null
+  return typeof highlight === 'function' ? highlight : story => highlight.has(story.id)
+}
+
+// IDs of stories whose text contains the query, ignoring case, in story order
+export function findTextMatches(stories: BaseStory[], query: string): string[] {
+  const needle = query.trim().toLowerCase()
+  if (!needle) return []
+  return stories.filter(story => story.text.toLowerCase().includes(needle)).map(story => story.id)
+}
+
+/**
+ * IDs of the `limit` stories whose embeddings are most similar to the query embedding,
+ * most similar first. Stories below `minSimilarity` (cosine) and stories in `exclude`
+ * (e.g. text matches) are skipped, so an unrelated query finds nothing.
+ */
+export function findSemanticMatches(
+  queryEmbedding: Embedding,
+  embeddings: Map<string, Embedding>,
+  limit: number = DEFAULT_SEMANTIC_RESULTS,
+  exclude: Set<string> = new Set(),
+  minSimilarity: number = DEFAULT_MIN_SEMANTIC_SIMILARITY,
+): string[] {
+  const maxDistance = 1 - minSimilarity
+  const scored: Array<{ id: string; distance: number }> = []
+  embeddings.forEach((embedding, id) => {
+    if (exclude.has(id)) return
+    const distance = cosineDistance(queryEmbedding, embedding)
+    if (Number.isFinite(distance) && distance <= maxDistance) scored.push({ id, distance })
+  })
+  return scored
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, Math.max(0, limit))
+    .map(({ id }) => id)
+}
@@ -0,0 +1,78 @@
+// Theme labels drawn on the canvas: where each theme's label goes, how large it is at
+// the current zoom, and which labels make room for each other
+
+import type { PixelCoordinate, Theme, ThemeLabelOptions } from '../types'
+
+export const DEFAULT_LABEL_FONT_SIZE = 14
+export const DEFAULT_MIN_LABEL_FONT_SIZE = 11
+export const DEFAULT_MAX_LABEL_FONT_SIZE = 22
+
+// Line heights a label may be moved up or down to get out of the way of another
+const MAX_LABEL_SHIFTS = 2
+
+// A theme's label anchor: the story-weighted centroid of its hexes
+export interface ThemeLabelAnchor extends PixelCoordinate {
+  theme: Theme
+  count: number
+}
+
+// Screen-space box of a label, centered on (x, y)
+export interface LabelBox extends PixelCoordinate {
+  width: number
+  height: number
+}
+
+/**
+ * Anchor for every theme at the centroid of its hexes, weighted by the stories each
+ * hex holds. The most populous themes come first, so they win when labels collide.
+ */
+export function themeLabelAnchors(
+  hexes: Array<PixelCoordinate & { theme: Theme | null; count: number }>,
+): ThemeLabelAnchor[] {
+  const anchors = new Map<string, ThemeLabelAnchor>()
+  hexes.forEach(({ theme, x, y, count }) => {
+    if (!theme) return
+    const anchor = anchors.get(theme.id) ?? { theme, x: 0, y: 0, count: 0 }
+    anchor.x += x * count
+    anchor.y += y * count
+    anchor.count += count
+    anchors.set(theme.id, anchor)
+  })
+
+  return Array.from(anchors.values())
+    .filter(anchor => anchor.count > 0)
+    .map(anchor => ({ ...anchor, x: anchor.x / anchor.count, y: anchor.y / anchor.count }))
+    .sort((a, b) => b.count - a.count)
+}
+
+// Label font size in pixels: grows with zoom, within the configured bounds
+export function themeLabelFontSize(zoom: number, options: ThemeLabelOptions = {}): number {
+  const min = options.minFontSize ?? DEFAULT_MIN_LABEL_FONT_SIZE
+  const max = Math.max(min, options.maxFontSize ?? DEFAULT_MAX_LABEL_FONT_SIZE)
+  return Math.max(min, Math.min(max, DEFAULT_LABEL_FONT_SIZE * zoom))
+}
+
+const overlaps = (a: LabelBox, b: LabelBox, gap: number) =>
+  Math.abs(a.x - b.x) * 2 < a.width + b.width + gap * 2 &&
+  Math.abs(a.y - b.y) * 2 < a.height + b.height + gap * 2
+
+/**
+ * Place labels in order without overlaps. A label that collides with one placed before
+ * it is moved up or down by whole line heights; when no nearby spot is free it is
+ * dropped (null), so crowded areas show the labels of their largest themes.
+ */
+export function placeLabels(boxes: LabelBox[], gap = 4): Array<PixelCoordinate | null> {
+  const placed: LabelBox[] = []
+  return boxes.map(box => {
+    for (let shift = 0; shift <= MAX_LABEL_SHIFTS * 2; shift++) {
+      // 0, +1, -1, +2, -2 line heights
+      const steps = shift % 2 === 1 ? (shift + 1) / 2 : -shift / 2
+      const candidate = { ...box, y: box.y + steps * (box.height + gap) }
+      if (!placed.some(other => overlaps(candidate, other, gap))) {
+        placed.push(candidate)
+        return { x: candidate.x, y: candidate.y }
+      }
+    }
+    return null
+  })
+}
@@ -0,0 +1,96 @@
+// Tweening between hive layouts: hexes move from their old pixel positions to their
+// new ones, added stories fade in and removed stories fade out
+
+import type { LayoutTransitionOptions, TransitionEasing } from '../types'
+
+export type EasingFunction = (t: number) => number
+
+export const EASING_FUNCTIONS: Record<Exclude<TransitionEasing, EasingFunction>, EasingFunction> = {
+  linear: t => t,
+  'ease-in': t => t * t * t,
+  'ease-out': t => 1 - (1 - t) ** 3,
+  'ease-in-out': t => (t < 0.5 ? 4 * t * t * t : 1 - (-2 * t + 2) ** 3 / 2),
+}
+
+export const DEFAULT_TRANSITION_DURATION_MS = 400
+
+export function resolveEasing(easing: TransitionEasing = 'ease-in-out'): EasingFunction {
+  return typeof easing === 'function' ? easing : EASING_FUNCTIONS[easing]
+}
+
+// True when the user asked the OS to minimize non-essential motion
+export function prefersReducedMotion(): boolean {
+  return (
+    typeof window !== 'undefined' &&
+    typeof window.matchMedia === 'function' &&
+    window.matchMedia('(prefers-reduced-motion: reduce)').matches
+  )
+}
+
+/**
+ * Duration in milliseconds for a transition prop; 0 (no animation) when transitions are
+ * disabled or the user prefers reduced motion.
+ */
+export function resolveTransitionDuration(
+  transition: boolean | LayoutTransitionOptions | undefined,
+): number {
+  if (transition === false || prefersReducedMotion()) return 0
+  const duration = transition === true ? undefined : transition?.duration
+  return Math.max(0, duration ?? DEFAULT_TRANSITION_DURATION_MS)
+}
+
+// Where a hex is drawn and how opaque it is
+export interface HexFrame {
+  x: number
+  y: number
+  alpha: number
+}
+
+// Start and end frame of every hex taking part in a transition, keyed by story ID
+export interface LayoutTransition {
+  from: Map<string, HexFrame>
+  to: Map<string, HexFrame>
+}
+
+/**
+ * Plan a transition from the frames currently on screen to the new pixel positions.
+ * Stories in both move, new stories fade in where they land and stories that are gone
+ * fade out where they were.
+ */
+export function planLayoutTransition(
+  displayed: Map<string, HexFrame>,
+  targets: Map<string, { x: number; y: number }>,
+): LayoutTransition {
+  const from = new Map<string, HexFrame>()
+  const to = new Map<string, HexFrame>()
+
+  targets.forEach(({ x, y }, id) => {
+    from.set(id, displayed.get(id) ?? { x, y, alpha: 0 })
+    to.set(id, { x, y, alpha: 1 })
+  })
+
+  displayed.forEach((frame, id) => {
+    if (targets.has(id) || frame.alpha === 0) return
+    from.set(id, frame)
+    to.set(id, { ...frame, alpha: 0 })
+  })
+
+  return { from, to }
+}
+
+// Frames at `progress` (0..1, already eased) of the way through a transition
+export function interpolateTransition(
+  { from, to }: LayoutTransition,
+  progress: number,
+): Map<string, HexFrame> {
+  const frames = new Map<string, HexFrame>()
+  to.forEach((end, id) => {
+    const start = from.get(id) ?? end
+    frames.set(id, {
+      x: start.x + (end.x - start.x) * progress,
+      y: start.y + (end.y - start.y) * progress,
+      alpha: start.alpha + (end.alpha - start.alpha) * progress,
+    })
+  })
+  return frames
+}
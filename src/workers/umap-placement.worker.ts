@@ -1,286 +1,198 @@
 // Web Worker for UMAP-based hex placement
-// Computes story positions dynamically from embeddings
+// Runs the placement engine off the main thread and relays progress
 /// <reference lib="webworker" />
 
 import type {
   HexCoordinate,
   UMAPNormalization,
   PlacementConfig,
-  StoryWithEmbedding,
+  PlacementPhase,
+  PlacementResult,
+  ProjectionInfo,
 } from '../types'
-import type { UMAP as UMAPType } from 'umap-js'
-
-type UMAPConstructor = typeof UMAPType
-
-let UMAPCtor: UMAPConstructor | null = null
-
-// Load UMAP library dynamically
-async function loadUMAP(): Promise<UMAPConstructor> {
-  if (UMAPCtor) return UMAPCtor
-
-  try {
-    const umapModule: unknown = await import('umap-js')
-
-    let resolved: UMAPConstructor | undefined
-
-    if (typeof umapModule === 'function') {
-      resolved = umapModule as UMAPConstructor
-    } else if (typeof umapModule === 'object' && umapModule !== null) {
-      if ('UMAP' in umapModule && typeof (umapModule as { UMAP?: unknown }).UMAP === 'function') {
-        resolved = (umapModule as { UMAP: unknown }).UMAP as UMAPConstructor
-      } else {
-        const defaultExport = (umapModule as { default?: unknown }).default
-        if (typeof defaultExport === 'function') {
-          resolved = defaultExport as UMAPConstructor
-        } else if (
-          defaultExport &&
-          typeof defaultExport === 'object' &&
-          'UMAP' in defaultExport &&
-          typeof (defaultExport as { UMAP?: unknown }).UMAP === 'function'
-        ) {
-          resolved = (defaultExport as { UMAP: unknown }).UMAP as UMAPConstructor
-        }
-      }
-    }
+import { createHiveLayout, type HiveLayout } from '../engine/placement'
+import type { ProjectedPoint } from '../engine/alignment'
+import { isAbortError } from '../utils/abort'
+import type { SerializedUMAPOptions } from '../utils/distance'
+import { unpackStories, type PackedStories } from '../utils/embeddings'
+
+// Every request and response carries the requestId the main thread assigned,
+// so replies to superseded or cancelled requests can be told apart.
+// A worker pool shared by several hives also tags requests with the hive's clientId,
+// so each hive keeps its own fitted layout.
+interface ComputePlacementMessage {
+  type: 'computePlacement'
+  requestId: number
+  clientId?: number
+  // Embeddings arrive packed in one transferred buffer
+  stories: PackedStories
+  // Explicit bounds; computed from the projected coordinates when omitted
+  norm?: UMAPNormalization
+  config: PlacementConfig
+  umap?: SerializedUMAPOptions
+  // Coordinates of the layout currently shown, which the new projection is aligned to
+  reference?: ProjectedPoint[]
+}
 
-    if (!resolved) {
-      throw new Error('UMAP class not found in umap-js package')
-    }
+interface AddStoriesMessage {
+  type: 'addStories'
+  requestId: number
+  clientId?: number
+  stories: PackedStories
+}
 
-    UMAPCtor = resolved
-    return UMAPCtor
-  } catch (e) {
-    throw new Error(
-      `Failed to load UMAP library: ${e instanceof Error ? e.message : String(e)}. ` +
-        `Please install: npm install umap-js`,
-    )
-  }
+interface CancelMessage {
+  type: 'cancel'
+  requestId: number
 }
 
-interface ComputePlacementMessage {
-  type: 'computePlacement'
-  stories: StoryWithEmbedding[]
-  norm: UMAPNormalization
-  config: PlacementConfig
+// Sent by the pool when a hive disconnects, to free its fitted layout
+interface ReleaseMessage {
+  type: 'release'
+  clientId: number
 }
 
+type WorkerRequestMessage =
+  | ComputePlacementMessage
+  | AddStoriesMessage
+  | CancelMessage
+  | ReleaseMessage
+
 interface PlacementResultMessage {
   type: 'placementResult'
+  requestId: number
   placements: Array<[string, HexCoordinate]>
   umapCoords?: Array<{ id: string; x: number; y: number }>
+  normalization?: UMAPNormalization
+  displacements?: Array<[string, number]>
+  projection?: ProjectionInfo
+  footprints?: Array<[string, number]>
+  binned?: boolean
 }
 
 interface ErrorMessage {
   type: 'error'
+  requestId: number
   error: string
 }
 
-const DEFAULT_CONFIG: PlacementConfig = {
-  canvasWidth: 900,
-  canvasHeight: 600,
-  hexRadius: 14,
-  margin: 20,
-}
-
-// Hex utility functions
-function pixelToHex(pixel: { x: number; y: number }, hexRadius: number): HexCoordinate {
-  const q = ((2 / 3) * pixel.x) / hexRadius
-  const r = ((-1 / 3) * pixel.x + (Math.sqrt(3) / 3) * pixel.y) / hexRadius
-  return cubeRound({ q, r, s: -q - r })
-}
-
-function cubeRound(cube: { q: number; r: number; s: number }): HexCoordinate {
-  let rq = Math.round(cube.q)
-  let rr = Math.round(cube.r)
-  let rs = Math.round(cube.s)
-
-  const qDiff = Math.abs(rq - cube.q)
-  const rDiff = Math.abs(rr - cube.r)
-  const sDiff = Math.abs(rs - cube.s)
-
-  if (qDiff > rDiff && qDiff > sDiff) {
-    rq = -rr - rs
-  } else if (rDiff > sDiff) {
-    rr = -rq - rs
-  } else {
-    rs = -rq - rr
-  }
-
-  return { q: rq, r: rr }
+interface CancelledMessage {
+  type: 'cancelled'
+  requestId: number
 }
 
-function getHexNeighbors(hex: HexCoordinate): HexCoordinate[] {
-  const directions = [
-    { q: 1, r: 0 },
-    { q: 1, r: -1 },
-    { q: 0, r: -1 },
-    { q: -1, r: 0 },
-    { q: -1, r: 1 },
-    { q: 0, r: 1 },
-  ]
-
-  return directions.map(dir => ({
-    q: hex.q + dir.q,
-    r: hex.r + dir.r,
-  }))
+export interface ProgressMessage {
+  type: 'progress'
+  requestId: number
+  phase: PlacementPhase
+  percent: number
 }
 
-function findAvailableHex(
-  center: HexCoordinate,
-  occupied: Set<string>,
-  maxRadius: number = 200,
-): HexCoordinate | null {
-  const centerKey = `${center.q},${center.r}`
-  if (!occupied.has(centerKey)) {
-    return center
-  }
-
-  for (let radius = 1; radius <= maxRadius; radius++) {
-    let current = { ...center }
-
-    for (let i = 0; i < radius; i++) {
-      current = getHexNeighbors(current)[4]
-    }
-
-    const directions = [0, 1, 2, 3, 4, 5]
-    for (const direction of directions) {
-      for (let i = 0; i < radius; i++) {
-        const key = `${current.q},${current.r}`
-        if (!occupied.has(key)) {
-          return current
-        }
-        current = getHexNeighbors(current)[direction]
-      }
-    }
-  }
+// Client of requests sent by a dedicated (unpooled) worker's only hive
+const DEFAULT_CLIENT_ID = 0
 
-  return null
-}
+// Layout from each client's last computePlacement, whose fitted model addStories reuses
+const fittedLayouts = new Map<number, HiveLayout>()
 
-function normalizeUMAP(x: number, y: number, norm: UMAPNormalization): { nx: number; ny: number } {
-  const nx = (x - norm.min_x) / (norm.max_x - norm.min_x)
-  const ny = (y - norm.min_y) / (norm.max_y - norm.min_y)
+// Abort controllers for requests in flight; a cancel message aborts the matching one
+const activeRequests = new Map<number, AbortController>()
 
+function toResultMessage(requestId: number, result: PlacementResult): PlacementResultMessage {
   return {
-    nx: Math.max(0, Math.min(1, nx)),
-    ny: Math.max(0, Math.min(1, ny)),
+    type: 'placementResult',
+    requestId,
+    placements: Array.from(result.placements.entries()),
+    umapCoords: result.umapCoords,
+    normalization: result.normalization,
+    displacements: result.displacements ? Array.from(result.displacements.entries()) : undefined,
+    projection: result.projection,
+    footprints: result.footprints ? Array.from(result.footprints.entries()) : undefined,
+    binned: result.binned,
   }
 }
 
-function placeStory(
-  umapX: number,
-  umapY: number,
-  norm: UMAPNormalization,
-  occupiedCells: Set<string>,
-  config: PlacementConfig = DEFAULT_CONFIG,
-): HexCoordinate {
-  const { nx, ny } = normalizeUMAP(umapX, umapY, norm)
-  const { canvasWidth, canvasHeight, hexRadius, margin } = config
-
-  const px = margin + nx * (canvasWidth - 2 * margin)
-  const py = margin + (1 - ny) * (canvasHeight - 2 * margin)
-
-  const centerX = canvasWidth / 2
-  const centerY = canvasHeight / 2
-
-  const idealHex = pixelToHex({ x: px - centerX, y: py - centerY }, hexRadius)
+// Compute UMAP from embeddings and place stories
+async function computePlacement(
+  message: ComputePlacementMessage,
+  signal: AbortSignal,
+): Promise<PlacementResultMessage> {
+  const { requestId, clientId = DEFAULT_CLIENT_ID } = message
+
+  fittedLayouts.delete(clientId)
+
+  const layout = await createHiveLayout(unpackStories(message.stories), {
+    config: { ...message.config, umap: message.umap },
+    norm: message.norm,
+    reference: message.reference,
+    signal,
+    onProgress: ({ phase, percent }) => {
+      const progress: ProgressMessage = { type: 'progress', requestId, phase, percent }
+      self.postMessage(progress)
+    },
+  })
 
-  const availableHex = findAvailableHex(idealHex, occupiedCells, 200)
+  fittedLayouts.set(clientId, layout)
+  return toResultMessage(requestId, layout.result)
+}
 
-  if (!availableHex) {
-    return idealHex
+// Project new stories into the fitted UMAP space and place them around existing hexes
+function addStories(message: AddStoriesMessage): PlacementResultMessage {
+  const fittedLayout = fittedLayouts.get(message.clientId ?? DEFAULT_CLIENT_ID)
+  if (!fittedLayout) {
+    throw new Error('No fitted UMAP model available. Call computePlacement first.')
   }
 
-  return availableHex
+  return toResultMessage(message.requestId, fittedLayout.addStories(unpackStories(message.stories)))
 }
 
-// Compute UMAP from embeddings and place stories
-async function computePlacement(message: ComputePlacementMessage): Promise<PlacementResultMessage> {
-  const { stories, norm, config } = message
-
-  if (stories.length === 0) {
-    return {
-      type: 'placementResult',
-      placements: [],
-    }
+async function handleRequest(
+  message: ComputePlacementMessage | AddStoriesMessage,
+  signal: AbortSignal,
+): Promise<PlacementResultMessage> {
+  if (message.type === 'addStories') {
+    return addStories(message)
   }
+  return computePlacement(message, signal)
+}
 
-  const UMAPClass = await loadUMAP()
-
-  const embeddings = stories.map(s => s.embedding)
-
-  // Calculate nNeighbors - must be less than the number of data points
-  const maxNeighbors = Math.max(2, stories.length - 1) // At least 2, but less than data points
-  const calculatedNeighbors = Math.min(15, Math.max(2, Math.floor(Math.sqrt(stories.length))))
-  const nNeighbors = Math.min(calculatedNeighbors, maxNeighbors)
+// Handle messages from main thread
+self.addEventListener('message', async (event: MessageEvent<WorkerRequestMessage>) => {
+  const message = event.data
 
-  if (stories.length < 2) {
-    throw new Error('Need at least 2 stories to compute UMAP')
+  if (message.type === 'cancel') {
+    activeRequests.get(message.requestId)?.abort()
+    return
   }
 
-  const umap = new UMAPClass({
-    nComponents: 2,
-    nNeighbors,
-    minDist: 0.1,
-    spread: 1.0,
-  })
-
-  const umapCoords = umap.fit(embeddings)
-
-  const storyUMAP = new Map<string, { x: number; y: number }>()
-  stories.forEach((story, index) => {
-    storyUMAP.set(story.id, {
-      x: umapCoords[index][0],
-      y: umapCoords[index][1],
-    })
-  })
-
-  const placements = new Map<string, HexCoordinate>()
-  const occupiedCells = new Set<string>()
-
-  const sortedStories = [...stories].sort((a, b) => {
-    if (a.cluster_id && b.cluster_id) {
-      return a.cluster_id.localeCompare(b.cluster_id)
-    }
-    if (a.cluster_id) return -1
-    if (b.cluster_id) return 1
-    return 0
-  })
-
-  for (const story of sortedStories) {
-    const umapCoord = storyUMAP.get(story.id)
-    if (!umapCoord) continue
-
-    const hexCoord = placeStory(umapCoord.x, umapCoord.y, norm, occupiedCells, config)
-
-    placements.set(story.id, hexCoord)
-    occupiedCells.add(`${hexCoord.q},${hexCoord.r}`)
+  if (message.type === 'release') {
+    fittedLayouts.delete(message.clientId)
+    return
   }
 
-  const umapCoordsArray = stories.map((story, index) => ({
-    id: story.id,
-    x: umapCoords[index][0],
-    y: umapCoords[index][1],
-  }))
+  const controller = new AbortController()
+  activeRequests.set(message.requestId, controller)
 
-  return {
-    type: 'placementResult',
-    placements: Array.from(placements.entries()),
-    umapCoords: umapCoordsArray,
-  }
-}
-
-// Handle messages from main thread
-self.addEventListener('message', async (event: MessageEvent<ComputePlacementMessage>) => {
   try {
-    const result = await computePlacement(event.data)
+    const result = await handleRequest(message, controller.signal)
     self.postMessage(result)
   } catch (error) {
+    if (isAbortError(error)) {
+      const cancelledMessage: CancelledMessage = {
+        type: 'cancelled',
+        requestId: message.requestId,
+      }
+      self.postMessage(cancelledMessage)
+      return
+    }
+
     console.error('UMAP Worker: Error in message handler:', error)
     const errorMessage: ErrorMessage = {
       type: 'error',
+      requestId: message.requestId,
       error: error instanceof Error ? error.message : 'Unknown error',
     }
     self.postMessage(errorMessage)
+  } finally {
+    activeRequests.delete(message.requestId)
   }
 })
@@ -0,0 +1,18 @@
+import { defineConfig } from 'vite'
+
+// Standalone placement engine for Node scripts and servers (no React, no CSS)
+export default defineConfig({
+  build: {
+    outDir: 'dist/engine',
+    emptyOutDir: false,
+    sourcemap: true,
+    lib: {
+      entry: 'src/engine/index.ts',
+      formats: ['es'],
+      fileName: () => 'index.js',
+    },
+    rollupOptions: {
+      external: ['umap-js'],
+    },
+  },
+})